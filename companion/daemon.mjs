@@ -0,0 +1,414 @@
+#!/usr/bin/env node
+// AccessMate reference companion daemon
+//
+// Speaks the companion protocol (see src/utils/companionProtocol.ts and companion/README.md)
+// over a localhost WebSocket and hands each command to an injector. The injectors here only
+// log or simulate input; platform-specific injectors implement the same five methods.
+//
+// Usage: node companion/daemon.mjs [--port 8765] [--host 127.0.0.1] [--simulate]
+//                                  [--screen 1920x1080] [--allow-origin <origin>]...
+//                                  [--token <secret>]
+//
+// The token can also come from ACCESSMATE_COMPANION_TOKEN, which keeps it out of the
+// process list.
+//
+// No dependencies - only Node's built-in modules.
+
+import { createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+const PROTOCOL_VERSION = 1; // keep in sync with COMPANION_PROTOCOL_VERSION
+const DAEMON_NAME = 'accessmate-reference-daemon';
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 64 * 1024;
+const MOVE_LOG_INTERVAL = 250; // ms - pointer moves arrive every frame
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+const COMMAND_TYPES = ['pointer.move', 'pointer.button', 'pointer.scroll', 'key.chord', 'text.input'];
+
+// ---------------------------------------------------------------------------
+// Command line
+
+function parseArgs(argv) {
+  const options = {
+    port: 8765,
+    host: '127.0.0.1',
+    simulate: false,
+    screen: { width: 1920, height: 1080 },
+    allowedOrigins: ['http://localhost:5173', 'http://127.0.0.1:5173', 'http://localhost:4173', 'http://127.0.0.1:4173'],
+    token: process.env.ACCESSMATE_COMPANION_TOKEN || null, // required from clients that send no Origin
+  };
+  const customOrigins = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--port':
+        options.port = Number(next());
+        break;
+      case '--host':
+        options.host = next();
+        break;
+      case '--simulate':
+        options.simulate = true;
+        break;
+      case '--screen': {
+        const [width, height] = next().split('x').map(Number);
+        if (!width || !height) throw new Error('--screen expects WIDTHxHEIGHT');
+        options.screen = { width, height };
+        break;
+      }
+      case '--allow-origin':
+        customOrigins.push(next());
+        break;
+      case '--token':
+        options.token = next();
+        break;
+      case '--help':
+        console.log('Usage: node companion/daemon.mjs [--port 8765] [--host 127.0.0.1] [--simulate] [--screen 1920x1080] [--allow-origin <origin>]... [--token <secret>]');
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  if (customOrigins.length > 0) options.allowedOrigins = customOrigins;
+  return options;
+}
+
+// ---------------------------------------------------------------------------
+// Injectors: move(x, y), button(button, state), scroll(dx, dy), chord(keys), text(text)
+
+function createLogInjector() {
+  let lastMoveLog = 0;
+  return {
+    move(x, y) {
+      const now = Date.now();
+      if (now - lastMoveLog < MOVE_LOG_INTERVAL) return;
+      lastMoveLog = now;
+      log(`pointer.move   x=${x.toFixed(3)} y=${y.toFixed(3)}`);
+    },
+    button(button, state) {
+      log(`pointer.button ${button} ${state}`);
+    },
+    scroll(dx, dy) {
+      log(`pointer.scroll dx=${dx} dy=${dy}`);
+    },
+    chord(keys) {
+      log(`key.chord      ${keys.join('+')}`);
+    },
+    text(text) {
+      log(`text.input     ${JSON.stringify(text)}`);
+    },
+  };
+}
+
+// Tracks a virtual screen so injector authors can check what would have happened
+function createSimulatedInjector(screen) {
+  const sim = { x: screen.width / 2, y: screen.height / 2, held: new Set(), typed: '' };
+  const position = () => `(${Math.round(sim.x)}, ${Math.round(sim.y)})`;
+  let lastMoveLog = 0;
+
+  return {
+    move(x, y) {
+      sim.x = Math.max(0, Math.min(1, x)) * screen.width;
+      sim.y = Math.max(0, Math.min(1, y)) * screen.height;
+      const now = Date.now();
+      if (sim.held.size > 0 || now - lastMoveLog >= MOVE_LOG_INTERVAL) {
+        lastMoveLog = now;
+        log(`${sim.held.size > 0 ? 'drag' : 'move'} to ${position()}`);
+      }
+    },
+    button(button, state) {
+      if (state === 'down') {
+        sim.held.add(button);
+        log(`${button} button pressed at ${position()}`);
+      } else if (sim.held.delete(button)) {
+        log(`${button} button released at ${position()}`);
+      } else {
+        log(`${button} button released at ${position()} (was not pressed)`);
+      }
+    },
+    scroll(dx, dy) {
+      log(`scroll ${dy > 0 ? 'down' : dy < 0 ? 'up' : ''}${dx ? ` ${dx > 0 ? 'right' : 'left'}` : ''} by ${Math.hypot(dx, dy)} at ${position()}`);
+    },
+    chord(keys) {
+      if (keys.length === 1 && keys[0] === 'Backspace') sim.typed = sim.typed.slice(0, -1);
+      if (keys.length === 1 && keys[0] === 'Enter') sim.typed += '\n';
+      log(`press ${keys.join('+')}`);
+    },
+    text(text) {
+      sim.typed += text;
+      log(`type ${JSON.stringify(text)} -> buffer ${JSON.stringify(sim.typed.slice(-40))}`);
+    },
+  };
+}
+
+function log(message) {
+  console.log(`[${new Date().toISOString().slice(11, 23)}] ${message}`);
+}
+
+// ---------------------------------------------------------------------------
+// Message validation
+
+function validateCommand(message) {
+  const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+  switch (message.type) {
+    case 'pointer.move':
+      return isNumber(message.x) && isNumber(message.y);
+    case 'pointer.button':
+      return ['left', 'right', 'middle'].includes(message.button) && ['down', 'up'].includes(message.state);
+    case 'pointer.scroll':
+      return isNumber(message.dx) && isNumber(message.dy);
+    case 'key.chord':
+      return Array.isArray(message.keys) && message.keys.length > 0 && message.keys.every((key) => typeof key === 'string');
+    case 'text.input':
+      return typeof message.text === 'string';
+    default:
+      return false;
+  }
+}
+
+function dispatchCommand(injector, message) {
+  switch (message.type) {
+    case 'pointer.move':
+      return injector.move(message.x, message.y);
+    case 'pointer.button':
+      return injector.button(message.button, message.state);
+    case 'pointer.scroll':
+      return injector.scroll(message.dx, message.dy);
+    case 'key.chord':
+      return injector.chord(message.keys);
+    case 'text.input':
+      return injector.text(message.text);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Minimal WebSocket (RFC 6455) server: text frames, ping/pong and close
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Returns { frame, rest } or null when more data is needed
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_PAYLOAD) throw new Error('Frame too large');
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+
+  return { frame: { fin, opcode, masked, payload }, rest: buffer.subarray(offset + length) };
+}
+
+function handleConnection(socket, injector, remote) {
+  let buffer = Buffer.alloc(0);
+  let seq = 0;
+  let greeted = false;
+
+  const sendJson = (message) => {
+    if (socket.writable) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify({ ...message, v: PROTOCOL_VERSION, seq: ++seq }))));
+  };
+  const close = (code = 1000) => {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    if (socket.writable) socket.end(encodeFrame(0x8, payload));
+  };
+  const sendError = (code, message) => sendJson({ type: 'error', code, message });
+
+  const handleText = (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return sendError('bad_message', 'Message is not valid JSON');
+    }
+    if (typeof message !== 'object' || message === null || typeof message.type !== 'string') {
+      return sendError('bad_message', 'Message has no type');
+    }
+    if (message.v !== PROTOCOL_VERSION) {
+      sendError('version_mismatch', `Daemon speaks protocol v${PROTOCOL_VERSION}, client sent v${message.v}`);
+      return close(1002);
+    }
+
+    if (message.type === 'hello') {
+      greeted = true;
+      log(`client ${JSON.stringify(message.client)} connected from ${remote}`);
+      return sendJson({ type: 'welcome', daemon: DAEMON_NAME, platform: process.platform, capabilities: COMMAND_TYPES });
+    }
+    if (!greeted) return sendError('bad_message', 'Send hello first');
+    if (!COMMAND_TYPES.includes(message.type)) return sendError('unsupported', `Unknown command ${message.type}`);
+    if (!validateCommand(message)) return sendError('bad_message', `Invalid ${message.type} command`);
+
+    try {
+      dispatchCommand(injector, message);
+    } catch (error) {
+      sendError('injection_failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    try {
+      for (let decoded = decodeFrame(buffer); decoded; decoded = decodeFrame(buffer)) {
+        buffer = decoded.rest;
+        const { fin, opcode, masked, payload } = decoded.frame;
+
+        // Clients must mask; fragmented messages are never sent by the app
+        if (!masked || !fin) return close(1002);
+
+        switch (opcode) {
+          case 0x1:
+            handleText(payload.toString('utf8'));
+            break;
+          case 0x8:
+            return close();
+          case 0x9:
+            socket.write(encodeFrame(0xa, payload));
+            break;
+          case 0xa:
+            break;
+          default:
+            return close(1003);
+        }
+      }
+    } catch (error) {
+      log(`protocol error from ${remote}: ${error.message}`);
+      close(1009);
+    }
+  });
+
+  socket.on('close', () => {
+    if (greeted) log(`client at ${remote} disconnected`);
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+// ---------------------------------------------------------------------------
+// Access
+
+// Browsers always send an Origin, so a connection without one comes from a native
+// process - it has to present the shared token as `Authorization: Bearer <token>`
+function isAuthorized(request, options) {
+  const origin = request.headers.origin;
+  if (origin) return options.allowedOrigins.includes(origin);
+  if (!options.token) return false;
+  const given = Buffer.from((request.headers.authorization ?? '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(options.token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// ---------------------------------------------------------------------------
+
+function main() {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  const injector = options.simulate ? createSimulatedInjector(options.screen) : createLogInjector();
+
+  const server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('AccessMate companion daemon - connect with a WebSocket\n');
+  });
+
+  server.on('upgrade', (request, socket) => {
+    const remote = `${socket.remoteAddress}:${socket.remotePort}`;
+    const key = request.headers['sec-websocket-key'];
+
+    // Any web page or local process could otherwise drive the user's machine
+    if (!isAuthorized(request, options)) {
+      const origin = request.headers.origin;
+      log(origin ? `rejected connection from origin ${origin}` : `rejected connection without origin or token from ${remote}`);
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '\r\n',
+    ].join('\r\n'));
+
+    handleConnection(socket, injector, remote);
+  });
+
+  server.on('error', (error) => {
+    console.error(`Companion daemon failed: ${error.message}`);
+    process.exit(1);
+  });
+
+  server.listen(options.port, options.host, () => {
+    log(`${DAEMON_NAME} (protocol v${PROTOCOL_VERSION}, ${options.simulate ? 'simulating' : 'logging'}) on ws://${options.host}:${options.port}`);
+    log(`allowed origins: ${options.allowedOrigins.join(', ')}`);
+    log(options.token ? 'clients without an origin must present the token' : 'clients without an origin are rejected (no --token)');
+    if (!LOOPBACK_HOSTS.includes(options.host)) {
+      log(`warning: listening on ${options.host} - other machines on the network can reach the daemon`);
+    }
+  });
+
+  const shutdown = () => {
+    server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -1,8 +1,5 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { FaceMesh, type Results as FaceResults } from '@mediapipe/face_mesh';
-import { Hands, type Results as HandsResults } from '@mediapipe/hands';
-import { Camera } from '@mediapipe/camera_utils';
 import { ThreeJSBackground } from './ThreeJSBackground';
 import { GlassCard, GlassButton, StatusBadge } from './ui/GlassCard';
 import { VirtualKeyboard } from './VirtualKeyboard';
@@ -10,34 +7,134 @@ import { QuickActionsWheel } from './QuickActionsWheel';
 import { CalibrationWizard } from './CalibrationWizard';
 import { AccessibilitySettings } from './AccessibilitySettings';
 import { BreakReminder, BreakIndicator } from './BreakReminder';
-import { useAccessMateStore } from '../store/useAccessMateStore';
-import { HeadTracker } from '../utils/headTracking';
+import { CursorOverlay } from './CursorOverlay';
+import { CustomGestureTrainer } from './CustomGestureTrainer';
+import { EyeCalibrationDialog, type EyeCalibrationStatus } from './EyeCalibrationDialog';
+import { SequenceIndicator } from './SequenceIndicator';
+import { RecenterPrompt } from './RecenterPrompt';
+import {
+  useAccessMateStore,
+  type GestureMappingItem,
+  type HandRole,
+  type HandSide,
+} from '../store/useAccessMateStore';
+import {
+  HeadScroller,
+  HeadTracker,
+  JoystickCursor,
+  headPositionToScreen,
+  type CalibrationData,
+} from '../utils/headTracking';
 import { EyeGestureDetector, MouthGestureDetector } from '../utils/faceGestures';
-import { GestureRecognizer, getGestureEmoji, getGestureDescription } from '../utils/gestureCommands';
+import { FaceTriggerDetector } from '../utils/faceTriggers';
+import { EyeCalibrator, type EyeThresholds } from '../utils/eyeCalibration';
+import { headGestureRecognizer } from '../utils/headGestures';
+import { rangeCalibrator } from '../utils/rangeCalibration';
+import { driftCorrector } from '../utils/driftCorrection';
+import { DwellClickEngine } from '../utils/dwellClick';
+import { domActuator, type MediaAction } from '../utils/domActuation';
+import { companionClient, type CompanionStatus } from '../utils/companionClient';
+import { FACE_GESTURE_OPTIONS, getCommandMode, type FaceGestureType } from '../utils/commandModes';
+import { COMMANDS, resolveGestureCommand, runCommand, type CommandContext } from '../utils/commandRegistry';
+import { GestureTrainer } from '../utils/customGestures';
+import { MotionGestureRecognizer } from '../utils/motionGestures';
+import { HandPointer, PinchClicker, type PinchEvent } from '../utils/handPointer';
+import { TwoHandGestureRecognizer } from '../utils/twoHandGestures';
+import { GestureSequenceMatcher, type GestureBinding, type InputGesture } from '../utils/gestureSequences';
+import { GestureRecognizer, getGestureEmoji, getGestureDescription, type GestureType } from '../utils/gestureCommands';
 import { audioFeedback, voiceFeedback } from '../utils/audioFeedback';
 import { fatigueDetector, type FatigueState } from '../utils/fatigueDetection';
+import type { TremorProfile } from '../utils/tremorFilter';
+import {
+  CameraLandmarkSource,
+  type FaceFrame,
+  type HandFrame,
+  type LandmarkHandlers,
+  type LandmarkSource,
+} from '../utils/landmarkSource';
+import {
+  LandmarkRecorder,
+  ReplayLandmarkSource,
+  downloadRecording,
+  parseRecording,
+} from '../utils/landmarkRecording';
 import type { Landmark } from '../utils/blinkDetection';
 import type { HandLandmark } from '../utils/fingerCounting';
 
+// KeyboardEvent.key names of the OS media keys
+const MEDIA_KEYS: Record<MediaAction, string> = {
+  playPause: 'MediaPlayPause',
+  volumeUp: 'AudioVolumeUp',
+  volumeDown: 'AudioVolumeDown',
+  nextTrack: 'MediaTrackNext',
+  previousTrack: 'MediaTrackPrevious',
+};
+
+const COMPANION_BADGE: Record<CompanionStatus, { status: 'success' | 'warning' | 'error' | 'info'; label: string }> = {
+  disabled: { status: 'info', label: 'OS Bridge Off' },
+  connecting: { status: 'warning', label: 'OS Bridge...' },
+  connected: { status: 'success', label: 'OS Bridge' },
+  disconnected: { status: 'error', label: 'OS Bridge Offline' },
+  incompatible: { status: 'error', label: 'OS Bridge Outdated' },
+};
+
 export function AccessMateApp() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const faceMeshRef = useRef<FaceMesh | null>(null);
-  const handsRef = useRef<Hands | null>(null);
-  const cameraRef = useRef<Camera | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
+  // Landmark input (webcam or recorded session) and session recorder
+  const sourceRef = useRef<LandmarkSource | null>(null);
+  const recorderRef = useRef(new LandmarkRecorder());
 
   // Tracking utilities
   const headTrackerRef = useRef(new HeadTracker());
+  const handPointerRef = useRef(new HandPointer(useAccessMateStore.getState().calibration));
+  const pinchClickerRef = useRef(new PinchClicker());
   const eyeDetectorRef = useRef(new EyeGestureDetector());
   const mouthDetectorRef = useRef(new MouthGestureDetector());
-  const gestureRecognizerRef = useRef(new GestureRecognizer());
+  const faceTriggerDetectorRef = useRef(new FaceTriggerDetector());
+  // Each hand is tracked separately so their holds and trajectories don't mix
+  const handRecognizersRef = useRef<Record<HandSide, GestureRecognizer>>({
+    left: new GestureRecognizer(),
+    right: new GestureRecognizer(),
+  });
+  const motionRecognizersRef = useRef<Record<HandSide, MotionGestureRecognizer>>({
+    left: new MotionGestureRecognizer(),
+    right: new MotionGestureRecognizer(),
+  });
+  const twoHandRecognizerRef = useRef(new TwoHandGestureRecognizer());
+  const sequenceMatcherRef = useRef(new GestureSequenceMatcher());
+  const gestureTrainerRef = useRef(new GestureTrainer());
+  const isTrainingGestureRef = useRef(false);
+  const eyeCalibratorRef = useRef(new EyeCalibrator());
+  const isCalibratingEyesRef = useRef(false);
+  const dwellEngineRef = useRef(new DwellClickEngine());
+  const joystickRef = useRef(new JoystickCursor());
+  const scrollerRef = useRef(new HeadScroller());
+
+  // Drag state: mouth-open drags end when the mouth closes, pinch drags when the
+  // pinch opens, command drags on the next toggle
+  const mouthDragRef = useRef(false);
+  const pinchDragRef = useRef(false);
 
   // Store latest landmarks for calibration
   const latestFaceLandmarksRef = useRef<Landmark[] | null>(null);
+  const latestHandLandmarksRef = useRef<HandLandmark[] | null>(null);
 
   const [showCalibration, setShowCalibration] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showGestureTrainer, setShowGestureTrainer] = useState(false);
+  const [trainingProgress, setTrainingProgress] = useState(0);
+  const [showEyeCalibration, setShowEyeCalibration] = useState(false);
+  const [eyeCalibrationStatus, setEyeCalibrationStatus] = useState<EyeCalibrationStatus | null>(null);
   const [showBreakReminder, setShowBreakReminder] = useState(false);
+  const [showRecenterPrompt, setShowRecenterPrompt] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [companionStatus, setCompanionStatus] = useState<CompanionStatus>(companionClient.getStatus());
+  const [tremorProfile, setTremorProfile] = useState<TremorProfile | null>(null);
   const [fatigueState, setFatigueState] = useState<FatigueState>({
     level: 'fresh',
     score: 0,
@@ -52,17 +149,228 @@ export function AccessMateApp() {
   const storeRef = useRef(store);
   storeRef.current = store;
 
+  // Click the page element under the cursor with audio and visual feedback
+  const performClick = useCallback((button: 'left' | 'right' | 'double') => {
+    const { settings, updateCursor, incrementClickCount } = storeRef.current;
+    const { cursor } = useAccessMateStore.getState();
+    const x = cursor.x * window.innerWidth;
+    const y = cursor.y * window.innerHeight;
+
+    // The companion daemon clicks at the OS pointer; without it, click the page element
+    if (button === 'double') {
+      if (!(companionClient.click('left') && companionClient.click('left'))) {
+        domActuator.doubleClick(x, y);
+      }
+    } else if (!companionClient.click(button)) {
+      domActuator.click(x, y, button);
+    }
+
+    if (button === 'double') {
+      if (settings.soundEnabled) audioFeedback.doubleClick();
+      updateCursor({ isClicking: true });
+      setTimeout(() => storeRef.current.updateCursor({ isClicking: false }), 200);
+    } else if (button === 'left') {
+      if (settings.soundEnabled) audioFeedback.click();
+      updateCursor({ isClicking: true });
+      setTimeout(() => storeRef.current.updateCursor({ isClicking: false }), 100);
+    } else if (settings.soundEnabled) {
+      audioFeedback.rightClick();
+    }
+    incrementClickCount();
+  }, []);
+
+  // Press and hold at the cursor until endDrag
+  const startDrag = useCallback(() => {
+    const { settings, cursor, updateCursor } = useAccessMateStore.getState();
+    if (cursor.isDragging) return;
+
+    if (settings.soundEnabled) audioFeedback.dragStart();
+    updateCursor({ isDragging: true });
+    if (!companionClient.buttonDown('left')) {
+      domActuator.startDrag(cursor.x * window.innerWidth, cursor.y * window.innerHeight);
+    }
+  }, []);
+
+  const endDrag = useCallback(() => {
+    const { settings, cursor, updateCursor } = useAccessMateStore.getState();
+    mouthDragRef.current = false;
+    pinchDragRef.current = false;
+    if (!cursor.isDragging) return;
+
+    if (settings.soundEnabled) audioFeedback.dragEnd();
+    updateCursor({ isDragging: false });
+    if (!companionClient.buttonUp('left')) {
+      domActuator.endDrag(cursor.x * window.innerWidth, cursor.y * window.innerHeight);
+    }
+  }, []);
+
+  // Move the cursor, and the OS pointer or the pointer over the page (and whatever is being dragged)
+  const moveCursor = useCallback((x: number, y: number) => {
+    storeRef.current.updateCursor({ x, y });
+
+    const viewportX = x * window.innerWidth;
+    const viewportY = y * window.innerHeight;
+    if (companionClient.movePointer(x, y)) {
+      // Injected at OS level
+    } else if (domActuator.isDragging()) {
+      domActuator.moveDrag(viewportX, viewportY);
+    } else {
+      domActuator.hover(viewportX, viewportY);
+    }
+  }, []);
+
+  // Pinch clicks and drags from the pointing hand
+  const handlePinch = useCallback((event: PinchEvent | null) => {
+    if (event === 'click') {
+      performClick('left');
+    } else if (event === 'rightClick') {
+      performClick('right');
+    } else if (event === 'dragStart' && !useAccessMateStore.getState().cursor.isDragging) {
+      startDrag();
+      pinchDragRef.current = true;
+    } else if (event === 'dragEnd' && pinchDragRef.current) {
+      endDrag();
+    }
+  }, [performClick, startDrag, endDrag]);
+
+  // Let go of a pinch in progress, dropping its drag
+  const releasePinch = useCallback(() => {
+    pinchClickerRef.current.reset();
+    if (pinchDragRef.current) endDrag();
+  }, [endDrag]);
+
+  // Send a virtual keyboard key to the OS through the companion, or to the page
+  const pressKey = useCallback((key: string) => {
+    if (!companionClient.pressVirtualKey(key)) {
+      domActuator.typeKey(key);
+    }
+  }, []);
+
+  // Make the head pose the centre once the head settles, keeping the measured ranges
+  const recenter = useCallback(() => {
+    if (!latestFaceLandmarksRef.current) return;
+    driftCorrector.requestRecenter();
+    setShowRecenterPrompt(false);
+    voiceFeedback.speak('Hold still');
+  }, []);
+
+  // What commands (gesture actions and others) can do
+  const commandContext = useMemo<CommandContext>(() => ({
+    click: performClick,
+    toggleScrollMode: () => {
+      const { cursor, settings, updateCursor } = useAccessMateStore.getState();
+      scrollerRef.current.reset();
+      updateCursor({ isScrolling: !cursor.isScrolling });
+      if (settings.soundEnabled) {
+        if (cursor.isScrolling) audioFeedback.scrollDown();
+        else audioFeedback.scrollUp();
+      }
+    },
+    scrollPage: (notches) => {
+      const { cursor } = useAccessMateStore.getState();
+      if (!companionClient.scroll(notches)) {
+        domActuator.scroll(cursor.x * window.innerWidth, cursor.y * window.innerHeight, notches);
+      }
+    },
+    toggleDrag: () => {
+      if (useAccessMateStore.getState().cursor.isDragging) endDrag();
+      else startDrag();
+    },
+    toggleKeyboard: () => {
+      const { showKeyboard, setShowKeyboard } = useAccessMateStore.getState();
+      setShowKeyboard(!showKeyboard);
+    },
+    toggleQuickActions: () => {
+      const { showQuickActions, setShowQuickActions } = useAccessMateStore.getState();
+      setShowQuickActions(!showQuickActions);
+    },
+    togglePause: () => useAccessMateStore.getState().togglePause(),
+    setPaused: (paused) => useAccessMateStore.getState().setPaused(paused),
+    releaseAll: () => {
+      endDrag();
+      const { cursor, updateCursor } = useAccessMateStore.getState();
+      if (cursor.isScrolling) updateCursor({ isScrolling: false });
+    },
+    zoom: (direction) => {
+      const modifier = companionClient.getDaemonInfo()?.platform === 'darwin' ? 'Meta' : 'Control';
+      if (!companionClient.keyChord(modifier, direction === 'in' ? '=' : '-')) {
+        const { cursor } = useAccessMateStore.getState();
+        domActuator.zoom(cursor.x * window.innerWidth, cursor.y * window.innerHeight, direction);
+      }
+    },
+    closeOverlays: () => {
+      const { setShowKeyboard, setShowQuickActions, updateCursor } = useAccessMateStore.getState();
+      setShowKeyboard(false);
+      setShowQuickActions(false);
+      updateCursor({ isScrolling: false });
+    },
+    pressKey,
+    navigate: (direction) => {
+      const modifier = companionClient.getDaemonInfo()?.platform === 'darwin' ? 'Meta' : 'Alt';
+      const key = direction === 'back' ? 'ArrowLeft' : 'ArrowRight';
+      if (!companionClient.keyChord(modifier, key)) {
+        if (direction === 'back') window.history.back();
+        else window.history.forward();
+      }
+    },
+    controlMedia: (action) => {
+      const { cursor } = useAccessMateStore.getState();
+      if (!companionClient.keyChord(MEDIA_KEYS[action])) {
+        domActuator.controlMedia(action, cursor.x * window.innerWidth, cursor.y * window.innerHeight);
+      }
+    },
+    recenter,
+  }), [performClick, startDrag, endDrag, pressKey, recenter]);
+
+  // Run a completed sequence or chord's action
+  const runBinding = useCallback((binding: GestureBinding) => {
+    const { isPaused, settings, incrementGestureCount } = storeRef.current;
+    if (runCommand(binding.action, commandContext, isPaused)) {
+      if (settings.soundEnabled) audioFeedback.gestureDetected();
+      incrementGestureCount();
+    }
+  }, [commandContext]);
+
+  // Offer a fired gesture to the sequences and chords; true when one of them took it,
+  // so its own mapping shouldn't run
+  const matchSequence = useCallback((gesture: InputGesture, timestamp: number) => {
+    if (getCommandMode(storeRef.current.commandMode).ignoresBindings) return false;
+    const match = sequenceMatcherRef.current.push(gesture, timestamp);
+    if (match.binding) runBinding(match.binding);
+    return match.consumed;
+  }, [runBinding]);
+
+  // Gestures held right now by the face or the hands, for chords; also keeps the
+  // progress indicator up to date
+  const updateChords = useCallback((source: 'face' | 'hand', gestures: InputGesture[], timestamp: number) => {
+    const { commandMode, detection, updateDetection } = storeRef.current;
+    const matcher = sequenceMatcherRef.current;
+    const isIgnoring = getCommandMode(commandMode).ignoresBindings === true;
+    const chord = matcher.setActive(source, isIgnoring ? [] : gestures, timestamp);
+    if (chord) runBinding(chord);
+
+    const progress = matcher.getProgress(timestamp);
+    const shown = detection.sequenceProgress;
+    if (progress?.binding.id !== shown?.binding.id || progress?.matched !== shown?.matched) {
+      updateDetection({ sequenceProgress: progress });
+    }
+  }, [runBinding]);
+
   // Handle face detection results
-  const handleFaceResults = useCallback((results: FaceResults) => {
+  const handleFaceResults = useCallback((results: FaceFrame, timestamp: number) => {
     const {
       isActive,
       isPaused,
       settings,
       cursor,
+      commandMode,
+      modeMappings,
       updateDetection,
       updateCursor,
-      incrementClickCount,
     } = storeRef.current;
+    const faceMappings = modeMappings[commandMode].face;
+    // Rest mode keeps the cursor and dwell still
+    const isFrozen = getCommandMode(commandMode).freezesCursor === true;
 
     if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
       const landmarks = results.multiFaceLandmarks[0] as Landmark[];
@@ -71,13 +379,63 @@ export function AccessMateApp() {
       latestFaceLandmarksRef.current = landmarks;
 
       // Head tracking
-      const headPos = headTrackerRef.current.track(landmarks);
+      const headPos = headTrackerRef.current.track(landmarks, timestamp);
+
+      // Nods, shakes and flicks answer dialogs, which subscribe to the recognizer
+      if (!headPos.isJerk) headGestureRecognizer.update(headPos, timestamp);
+
+      // The calibration wizard measuring the user's range of motion
+      const rawPose = headTrackerRef.current.measure(landmarks);
+      if (rangeCalibrator.isActive()) {
+        rangeCalibrator.update(rawPose, timestamp);
+      } else if (
+        driftCorrector.isRecentering() ||
+        (isActive && !isPaused && !isFrozen && settings.cursorMode !== 'disabled' && settings.cursorMode !== 'hand')
+      ) {
+        // Follow slow posture changes, offer to re-center once the face leaves the calibrated
+        // box, and re-center when asked once the head has settled
+        const drift = driftCorrector.update(rawPose, storeRef.current.calibration, timestamp);
+        if (drift.calibration) storeRef.current.saveCalibration(drift.calibration);
+        if (drift.isRecentered) {
+          headTrackerRef.current.reset();
+          if (settings.soundEnabled) audioFeedback.calibrationComplete();
+          voiceFeedback.speak('Re-centered');
+        }
+        if (drift.shouldPrompt && settings.recenterPromptsEnabled) {
+          setShowRecenterPrompt(true);
+          voiceFeedback.speak('Position changed. Nod to re-center.', true);
+        }
+      }
 
       // Eye detection
-      const eyeState = eyeDetectorRef.current.detect(landmarks);
+      const eyeState = eyeDetectorRef.current.detect(landmarks, timestamp);
+
+      // While calibrating the eyes every frame is a sample, and closing them is not a blink
+      const isCalibratingEyes = isCalibratingEyesRef.current;
+      if (isCalibratingEyes) {
+        const calibrator = eyeCalibratorRef.current;
+        const previousPhase = calibrator.getPhase();
+        if (calibrator.addSample(eyeState.leftEAR, eyeState.rightEAR, timestamp)) {
+          const phase = calibrator.getPhase();
+          const result = phase === 'complete' ? calibrator.createThresholds() : null;
+          setEyeCalibrationStatus({ phase, progress: calibrator.getProgress(), result });
+          // The tones tell the user when to close and open their eyes
+          if (phase === 'closed' && previousPhase === 'open' && settings.soundEnabled) audioFeedback.success();
+          if (phase === 'complete') {
+            isCalibratingEyesRef.current = false;
+            if (settings.soundEnabled) {
+              if (result) audioFeedback.calibrationComplete();
+              else audioFeedback.error();
+            }
+          }
+        }
+      }
 
       // Mouth detection
-      const mouthState = mouthDetectorRef.current.detect(landmarks);
+      const mouthState = mouthDetectorRef.current.detect(landmarks, timestamp);
+
+      // Held expressions - eyebrows, smile, mouth, head roll and leaning in
+      const faceTrigger = faceTriggerDetectorRef.current.update(landmarks, mouthState, headPos.tilt, timestamp);
 
       // Update detection state
       updateDetection({
@@ -88,213 +446,470 @@ export function AccessMateApp() {
         leftEyeOpen: eyeState.leftOpen,
         rightEyeOpen: eyeState.rightOpen,
         isMouthOpen: mouthState.isOpen,
+        faceTrigger: faceTrigger.active,
       });
 
       // Handle cursor movement if active and not paused
-      if (isActive && !isPaused && settings.cursorMode === 'head') {
-        const newX = (headPos.x + 1) / 2; // Convert -1..1 to 0..1
-        const newY = (headPos.y + 1) / 2;
+      let cursorX = cursor.x;
+      let cursorY = cursor.y;
+      // The cursor stays put while the tracker holds through an involuntary jerk
+      const isCursorMoving = isActive && !isPaused && !isFrozen && settings.cursorMode !== 'disabled' &&
+        settings.cursorMode !== 'hand' && !headPos.isJerk && !cursor.isScrolling;
+      const transfer = {
+        curve: settings.cursorCurve,
+        gainX: settings.cursorGainX,
+        gainY: settings.cursorGainY,
+      };
+      if (isCursorMoving && settings.cursorMode === 'joystick') {
+        // Head deflection sets the cursor velocity
+        const screenPos = joystickRef.current.update(headPos, timestamp, settings.cursorSpeed, settings.deadZone, transfer);
+        cursorX = screenPos.x;
+        cursorY = screenPos.y;
+      } else if (isCursorMoving) {
+        // Head rotation ('head') or nose tip position ('nose') maps straight to the
+        // 0..1 cursor range using the user's speed and dead zone
+        const input = settings.cursorMode === 'nose' ? { x: headPos.noseX, y: headPos.noseY } : headPos;
+        const screenPos = headPositionToScreen(input, 1, 1, settings.cursorSpeed, settings.deadZone, transfer);
+        cursorX = screenPos.x;
+        cursorY = screenPos.y;
+      }
 
-        updateCursor({
-          x: newX,
-          y: newY,
-        });
+      if (isCursorMoving) moveCursor(cursorX, cursorY);
+      if (!isCursorMoving || settings.cursorMode !== 'joystick') {
+        // Joystick mode picks up from wherever the cursor was left
+        joystickRef.current.setPosition(cursorX, cursorY);
+      }
+
+      // Scroll mode: nod up or down to scroll at the cursor
+      if (isActive && !isPaused && !isFrozen && cursor.isScrolling && !headPos.isJerk) {
+        const notches = scrollerRef.current.update(headPos, timestamp, settings.cursorSpeed, settings.deadZone, transfer);
+        if (notches !== 0 && !companionClient.scroll(notches)) {
+          domActuator.scroll(cursorX * window.innerWidth, cursorY * window.innerHeight, notches);
+        }
       }
 
-      // Handle eye wink clicks
-      if (isActive && !isPaused && settings.clickMode === 'wink') {
-        const wink = eyeDetectorRef.current.detectIntentionalWink(landmarks);
-        if (wink === 'left') {
-          if (settings.soundEnabled) audioFeedback.click();
-          incrementClickCount();
-          updateCursor({ isClicking: true });
-          setTimeout(() => storeRef.current.updateCursor({ isClicking: false }), 100);
-        } else if (wink === 'right') {
-          if (settings.soundEnabled) audioFeedback.rightClick();
-          incrementClickCount();
+      // Handle winks (left / right click by default) and deliberate blinks through the
+      // active mode's face mappings; winks only count in the wink click mode
+      const eyeGesture = eyeDetectorRef.current.detectIntentionalWink(eyeState, timestamp);
+      if (isActive && eyeGesture && !isCalibratingEyes) {
+        const isWinkClicking = settings.clickMode === 'wink';
+        const faceGesture: FaceGestureType | null =
+          eyeGesture === 'double' ? 'doubleBlink'
+          : eyeGesture === 'long' ? 'longBlink'
+          : !isWinkClicking ? null
+          : eyeGesture === 'left' ? 'leftWink' : 'rightWink';
+        if (faceGesture && !matchSequence(faceGesture, timestamp)) {
+          const command = resolveGestureCommand(faceGesture, faceMappings);
+          if (command) runCommand(command, commandContext, isPaused);
         }
       }
 
-      // Handle mouth open for drag
-      if (mouthState.isOpen && !cursor.isDragging) {
-        if (settings.soundEnabled) audioFeedback.dragStart();
-        updateCursor({ isDragging: true });
-      } else if (!mouthState.isOpen && cursor.isDragging) {
-        if (settings.soundEnabled) audioFeedback.dragEnd();
-        updateCursor({ isDragging: false });
+      // Winks and expressions being held, for chords with the other face or hand gestures
+      const heldFaceGestures: InputGesture[] = [];
+      if (eyeState.isWinkingLeft) heldFaceGestures.push('leftWink');
+      if (eyeState.isWinkingRight) heldFaceGestures.push('rightWink');
+      if (faceTrigger.active) heldFaceGestures.push(faceTrigger.active);
+      updateChords('face', isActive && !isCalibratingEyes ? heldFaceGestures : [], timestamp);
+
+      // Handle dwell clicks (not while dragging, which would drop the drag)
+      const isDwellActive = isActive && !isPaused && !isFrozen && !cursor.isDragging &&
+        settings.clickMode === 'dwell' && settings.dwellClickEnabled;
+      if (isDwellActive && !headPos.isJerk) {
+        const dwell = dwellEngineRef.current.update(cursorX, cursorY, timestamp);
+        if (dwell.started && settings.soundEnabled) audioFeedback.dwellStart();
+        updateCursor({ isDwelling: dwell.isDwelling, dwellProgress: dwell.progress });
+        if (dwell.completed) {
+          if (settings.soundEnabled) audioFeedback.dwellComplete();
+          performClick('left');
+        }
+      } else if (!isDwellActive && cursor.isDwelling) {
+        dwellEngineRef.current.reset();
+        updateCursor({ isDwelling: false, dwellProgress: 0 });
+      }
+
+      // Handle face triggers through the active mode's face mappings. Mouth open mapped
+      // to drag is held open to drag and closing drops; everything else runs once per hold
+      if (faceTrigger.trigger && isActive && !matchSequence(faceTrigger.trigger, timestamp)) {
+        const command = resolveGestureCommand<FaceGestureType | null>(faceTrigger.trigger, faceMappings);
+        if (command === 'drag' && faceTrigger.trigger === 'mouthOpen') {
+          if (!isPaused && !cursor.isDragging) {
+            startDrag();
+            mouthDragRef.current = true;
+          }
+        } else if (command && runCommand(command, commandContext, isPaused)) {
+          if (settings.soundEnabled) audioFeedback.gestureDetected();
+        }
+      }
+      if (!mouthState.isOpen && mouthDragRef.current) {
+        endDrag();
       }
 
       // Process fatigue detection if enabled
-      if (settings.fatigueDetectionEnabled) {
-        fatigueDetector.processEyeState(eyeState.leftOpen, eyeState.rightOpen);
-        fatigueDetector.processMouthState(mouthState.isOpen, mouthState.openRatio);
-        fatigueDetector.processHeadPosition(headPos.y);
+      if (settings.fatigueDetectionEnabled && !isCalibratingEyes) {
+        fatigueDetector.processEyeState(eyeState.leftOpen, eyeState.rightOpen, timestamp);
+        fatigueDetector.processMouthState(mouthState.isOpen, mouthState.openRatio, timestamp);
+        fatigueDetector.processHeadPosition(headPos.y, timestamp);
       }
     } else {
-      storeRef.current.updateDetection({ isFaceDetected: false });
+      storeRef.current.updateDetection({ isFaceDetected: false, faceTrigger: null });
+      faceTriggerDetectorRef.current.reset();
+      headGestureRecognizer.reset();
+      updateChords('face', [], timestamp);
       latestFaceLandmarksRef.current = null;
     }
-  }, []);
+  }, [performClick, startDrag, endDrag, moveCursor, commandContext, matchSequence, updateChords]);
 
   // Handle hand detection results
-  const handleHandResults = useCallback((results: HandsResults) => {
+  const handleHandResults = useCallback((results: HandFrame, timestamp: number) => {
     const {
       isActive,
       isPaused,
       settings,
-      showKeyboard,
-      showQuickActions,
+      commandMode,
+      modeMappings,
+      cycleCommandMode,
       updateDetection,
-      togglePause,
-      setShowKeyboard,
-      setShowQuickActions,
       incrementGestureCount,
     } = storeRef.current;
 
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-      const landmarks = results.multiHandLandmarks[0] as HandLandmark[];
-      const isRightHand = results.multiHandedness?.[0]?.label === 'Right';
-
-      // Recognize gesture
-      const gestureResult = gestureRecognizerRef.current.recognize(landmarks, isRightHand);
-
-      updateDetection({
-        isHandDetected: true,
-        currentGesture: gestureResult.gesture,
-        fingerCount: gestureResult.fingerCount,
-      });
-
-      // Handle gesture commands if enabled
-      if (isActive && !isPaused && settings.gesturesEnabled) {
-        const heldGesture = gestureRecognizerRef.current.detectHeldGesture(landmarks, isRightHand);
-
-        if (heldGesture) {
-          if (settings.soundEnabled) audioFeedback.gestureDetected();
-          incrementGestureCount();
-
-          // Execute gesture action
-          switch (heldGesture) {
-            case 'openPalm':
-              togglePause();
-              break;
-            case 'callMe':
-              setShowKeyboard(!showKeyboard);
-              break;
-            case 'rockSign':
-              setShowQuickActions(!showQuickActions);
-              break;
-            case 'fist':
-              // Cancel / Escape
-              setShowKeyboard(false);
-              setShowQuickActions(false);
-              break;
-          }
-        }
+    // MediaPipe labels handedness as if the image were mirrored. Ours is not, so its
+    // 'Right' is the user's left hand; the finger geometry takes the label as-is
+    const hands = (results.multiHandLandmarks ?? []).map((frameLandmarks, i) => {
+      const isRightHand = results.multiHandedness?.[i]?.label === 'Right';
+      return { landmarks: frameLandmarks as HandLandmark[], isRightHand, side: (isRightHand ? 'left' : 'right') as HandSide };
+    });
+    // Both hands given the same label - trust the first and flip the second
+    if (hands.length === 2 && hands[0].side === hands[1].side) {
+      hands[1].side = hands[0].side === 'left' ? 'right' : 'left';
+    }
+    const trackedHands = hands.map((hand) => ({
+      ...hand,
+      role: (settings.primaryHand === 'either' || settings.primaryHand === hand.side ? 'primary' : 'secondary') as HandRole,
+      result: handRecognizersRef.current[hand.side].recognize(hand.landmarks, hand.isRightHand, timestamp),
+    }));
+
+    // A hand that left the view starts its gestures over
+    for (const side of ['left', 'right'] as HandSide[]) {
+      if (!trackedHands.some((hand) => hand.side === side)) {
+        handRecognizersRef.current[side].reset();
+        motionRecognizersRef.current[side].reset();
       }
-    } else {
+    }
+    if (trackedHands.length < 2) twoHandRecognizerRef.current.reset();
+
+    if (trackedHands.length === 0) {
+      latestHandLandmarksRef.current = null;
+      handPointerRef.current.reset();
+      releasePinch();
+      updateChords('hand', [], timestamp);
       updateDetection({
         isHandDetected: false,
         currentGesture: null,
+        gestureConfidence: 0,
         fingerCount: 0,
+        handCount: 0,
       });
+      return;
     }
-  }, []);
 
-  // Initialize camera and MediaPipe
-  const initializeCamera = useCallback(async () => {
-    if (!videoRef.current) return;
+    // Show, train and point with the primary hand
+    const shownHand = trackedHands.find((hand) => hand.role === 'primary') ?? trackedHands[0];
+    latestHandLandmarksRef.current = shownHand.landmarks;
+    updateDetection({
+      isHandDetected: true,
+      currentGesture: shownHand.result.gesture,
+      gestureConfidence: shownHand.result.confidence,
+      fingerCount: shownHand.result.fingerCount,
+      handCount: trackedHands.length,
+    });
+
+    // While training a custom gesture every frame is a sample, not a command
+    if (isTrainingGestureRef.current) {
+      const trainer = gestureTrainerRef.current;
+      if (trainer.addSample(shownHand.landmarks, shownHand.isRightHand, timestamp)) {
+        setTrainingProgress(trainer.getProgress());
+        if (trainer.isComplete()) {
+          isTrainingGestureRef.current = false;
+          if (settings.soundEnabled) audioFeedback.success();
+        }
+      }
+      return;
+    }
 
-    storeRef.current.setCameraLoading(true);
+    // Run the command the user mapped to a gesture; pausing still listens
+    // for gestures so a mapped 'pause' can resume control
+    const isGesturing = isActive && settings.gesturesEnabled;
+    const mappings = modeMappings[commandMode];
+
+    const handleGesture = (gesture: GestureType, handMappings: GestureMappingItem[]) => {
+      if (!gesture) return;
+
+      // The mode switch gesture works in every mode and takes precedence over its mappings
+      if (gesture === settings.modeCycleGesture && !isPaused) {
+        cycleCommandMode();
+        const mode = getCommandMode(storeRef.current.commandMode);
+        voiceFeedback.speak(`${mode.label} mode`, true);
+        if (settings.soundEnabled) audioFeedback.gestureDetected();
+        incrementGestureCount();
+        return;
+      }
+      if (matchSequence(gesture, timestamp)) return;
 
-    try {
-      const faceMesh = new FaceMesh({
-        locateFile: (file) => `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`,
-      });
+      const command = resolveGestureCommand(gesture, handMappings);
+      if (command && runCommand(command, commandContext, isPaused)) {
+        if (settings.soundEnabled) audioFeedback.gestureDetected();
+        incrementGestureCount();
+      }
+    };
 
-      faceMesh.setOptions({
-        maxNumFaces: 1,
-        refineLandmarks: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
+    // Poses being held by either hand, for chords with the face or the other hand
+    const heldHandGestures = trackedHands
+      .map((hand) => hand.result.gesture)
+      .filter((gesture): gesture is NonNullable<GestureType> => gesture !== null);
+    updateChords('hand', isGesturing ? heldHandGestures : [], timestamp);
+
+    // Two-hand gestures take over while both hands are forming one
+    let isTwoHandEngaged = false;
+    if (isGesturing && trackedHands.length === 2) {
+      const [first, second] = trackedHands;
+      const twoHand = twoHandRecognizerRef.current.update(
+        { landmarks: first.landmarks, gesture: first.result.gesture },
+        { landmarks: second.landmarks, gesture: second.result.gesture },
+        timestamp
+      );
+      handleGesture(twoHand.gesture, mappings.gestures);
+      isTwoHandEngaged = twoHand.engaged;
+    }
 
-      faceMesh.onResults(handleFaceResults);
-      faceMeshRef.current = faceMesh;
+    // Hand pointing: the primary hand's index fingertip moves the cursor and its pinches
+    // click. Rest mode and pausing hand it back to gestures
+    const isFrozen = getCommandMode(commandMode).freezesCursor === true;
+    const pointingHand = isActive && !isPaused && !isFrozen && settings.cursorMode === 'hand' ? shownHand : null;
+    if (pointingHand) {
+      const { cursor } = useAccessMateStore.getState();
+      const pointer = pointingHand.landmarks;
+      const position = handPointerRef.current.track(pointer, timestamp);
+      if (isTwoHandEngaged || settings.clickMode === 'disabled') {
+        releasePinch();
+      } else {
+        handlePinch(pinchClickerRef.current.update(pointer, timestamp));
+      }
 
-      const hands = new Hands({
-        locateFile: (file) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
-      });
+      // The cursor holds still while a pinch closes so the click lands where it pointed
+      if (!position.isJerk && !cursor.isScrolling && !pinchClickerRef.current.isPressed()) {
+        const screenPos = headPositionToScreen(position, 1, 1, settings.cursorSpeed, settings.deadZone, {
+          curve: settings.cursorCurve,
+          gainX: settings.cursorGainX,
+          gainY: settings.cursorGainY,
+        });
+        moveCursor(screenPos.x, screenPos.y);
+      }
+    } else {
+      handPointerRef.current.reset();
+      releasePinch();
+    }
 
-      hands.setOptions({
-        maxNumHands: 1,
-        modelComplexity: 1,
-        minDetectionConfidence: 0.6,
-        minTrackingConfidence: 0.5,
-      });
+    if (!isGesturing) return;
+    if (isTwoHandEngaged) {
+      for (const hand of trackedHands) {
+        handRecognizersRef.current[hand.side].reset();
+        motionRecognizersRef.current[hand.side].reset();
+      }
+      return;
+    }
 
-      hands.onResults(handleHandResults);
-      handsRef.current = hands;
+    // The pointing hand is busy moving the cursor, so only the other hand gestures
+    for (const hand of trackedHands) {
+      if (hand === pointingHand) {
+        handRecognizersRef.current[hand.side].reset();
+        motionRecognizersRef.current[hand.side].reset();
+        continue;
+      }
+      const recognizer = handRecognizersRef.current[hand.side];
+      // Motion gestures fire as soon as the movement completes; holding a pose starts over after one
+      const motionGesture = settings.motionGesturesEnabled
+        ? motionRecognizersRef.current[hand.side].update(hand.landmarks, timestamp)
+        : null;
+      if (motionGesture) recognizer.reset();
+      const heldGesture = motionGesture ??
+        recognizer.detectHeldGesture(hand.landmarks, hand.isRightHand, timestamp, hand.result);
+      handleGesture(heldGesture, hand.role === 'primary' ? mappings.gestures : mappings.secondaryGestures);
+    }
+  }, [commandContext, moveCursor, handlePinch, releasePinch, matchSequence, updateChords]);
+
+  // Feed every frame to the recorder before the control pipeline
+  const landmarkHandlers = useMemo<LandmarkHandlers>(() => ({
+    onFace: (frame, timestamp) => {
+      recorderRef.current.recordFace(frame, timestamp);
+      handleFaceResults(frame, timestamp);
+    },
+    onHands: (frame, timestamp) => {
+      recorderRef.current.recordHands(frame, timestamp);
+      handleHandResults(frame, timestamp);
+    },
+  }), [handleFaceResults, handleHandResults]);
+
+  // Stop recording and download what was captured
+  const stopRecording = useCallback(() => {
+    if (!recorderRef.current.isRecording()) return;
+    const recording = recorderRef.current.stop();
+    setIsRecording(false);
+    if (recording.frames.length > 0) {
+      downloadRecording(recording);
+    }
+  }, []);
 
-      const camera = new Camera(videoRef.current, {
-        onFrame: async () => {
-          if (videoRef.current && faceMeshRef.current && handsRef.current) {
-            await faceMeshRef.current.send({ image: videoRef.current });
-            await handsRef.current.send({ image: videoRef.current });
-          }
-        },
-        width: 640,
-        height: 480,
-      });
+  const startRecording = useCallback(() => {
+    recorderRef.current.start();
+    setIsRecording(true);
+  }, []);
 
-      cameraRef.current = camera;
-      await camera.start();
+  // Start a landmark source and begin a session
+  // Start every detector afresh, so a source (a replay in particular) doesn't inherit
+  // the holds, cooldowns and filter state of frames from another one
+  const resetDetectors = useCallback(() => {
+    headTrackerRef.current.reset();
+    handPointerRef.current.reset();
+    pinchClickerRef.current.reset();
+    eyeDetectorRef.current.reset();
+    mouthDetectorRef.current.reset();
+    faceTriggerDetectorRef.current.reset();
+    for (const side of ['left', 'right'] as const) {
+      handRecognizersRef.current[side].reset();
+      motionRecognizersRef.current[side].reset();
+    }
+    twoHandRecognizerRef.current.reset();
+    sequenceMatcherRef.current.reset();
+    dwellEngineRef.current.reset();
+    scrollerRef.current.reset();
+    joystickRef.current.setPosition(0.5, 0.5);
+    headGestureRecognizer.reset();
+    driftCorrector.reset();
+    fatigueDetector.reset();
+  }, []);
 
+  const startSource = useCallback(async (source: LandmarkSource) => {
+    storeRef.current.setCameraLoading(true);
+    storeRef.current.setCameraError(null);
+    resetDetectors();
+
+    try {
+      sourceRef.current = source;
+      await source.start();
+
+      setIsReplaying(source.kind === 'replay');
       storeRef.current.setCameraActive(true);
       storeRef.current.setCameraLoading(false);
       storeRef.current.startSession();
 
       if (storeRef.current.settings.soundEnabled) audioFeedback.success();
     } catch (err) {
-      console.error('Camera initialization error:', err);
+      console.error('Landmark source initialization error:', err);
+      // Release whatever did start, so a retry doesn't run a second pipeline beside it
+      source.stop();
+      sourceRef.current = null;
       storeRef.current.setCameraError(err instanceof Error ? err.message : 'Failed to initialize camera');
       storeRef.current.setCameraLoading(false);
     }
-  }, [handleFaceResults, handleHandResults]);
+  }, [resetDetectors]);
 
-  // Stop camera
+  // Stop camera or replay
   const stopCamera = useCallback(() => {
-    if (cameraRef.current) {
-      cameraRef.current.stop();
-      cameraRef.current = null;
-    }
-    if (faceMeshRef.current) {
-      faceMeshRef.current.close();
-      faceMeshRef.current = null;
-    }
-    if (handsRef.current) {
-      handsRef.current.close();
-      handsRef.current = null;
+    stopRecording();
+    if (sourceRef.current) {
+      sourceRef.current.stop();
+      sourceRef.current = null;
     }
+    setIsReplaying(false);
+    domActuator.reset();
     storeRef.current.setCameraActive(false);
     storeRef.current.setActive(false);
     storeRef.current.endSession();
-  }, []);
+  }, [stopRecording]);
+
+  // Initialize camera and MediaPipe
+  const initializeCamera = useCallback(async () => {
+    if (!videoRef.current) return;
+    await startSource(new CameraLandmarkSource(videoRef.current, landmarkHandlers));
+  }, [startSource, landmarkHandlers]);
+
+  // Replay a recorded session instead of the webcam
+  const startReplay = useCallback(async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      await startSource(new ReplayLandmarkSource(recording, landmarkHandlers, {
+        speed: replaySpeed,
+        onEnd: stopCamera,
+      }));
+    } catch (err) {
+      console.error('Recording load error:', err);
+      storeRef.current.setCameraError(err instanceof Error ? err.message : 'Failed to load recording');
+    }
+  }, [startSource, landmarkHandlers, replaySpeed, stopCamera]);
 
   // Handle calibration - now uses stored landmarks
   const handleCalibrate = useCallback(() => {
+    const { settings } = storeRef.current;
+    if (settings.cursorMode === 'hand') {
+      if (!latestHandLandmarksRef.current) return null;
+      return handPointerRef.current.calibrate(latestHandLandmarksRef.current, storeRef.current.calibration);
+    }
     if (!latestFaceLandmarksRef.current) return null;
+    faceTriggerDetectorRef.current.calibrate(latestFaceLandmarksRef.current);
     const calibration = headTrackerRef.current.calibrate(latestFaceLandmarksRef.current);
     return calibration;
   }, []);
 
+  // A completed calibration moves the centre too - log it with the drift adjustments
+  const completeCalibration = useCallback((calibration: CalibrationData) => {
+    const { calibration: previous, saveCalibration } = storeRef.current;
+    driftCorrector.record('calibrate', previous, calibration);
+    driftCorrector.reset();
+    saveCalibration(calibration);
+  }, []);
+
+  // Custom gesture training
+  const startGestureTraining = useCallback(() => {
+    gestureTrainerRef.current.reset();
+    setTrainingProgress(0);
+    isTrainingGestureRef.current = true;
+  }, []);
+
+  const saveCustomGesture = useCallback((name: string) => {
+    storeRef.current.addCustomGesture(gestureTrainerRef.current.createTemplate(name));
+  }, []);
+
+  const closeGestureTrainer = useCallback(() => {
+    isTrainingGestureRef.current = false;
+    setShowGestureTrainer(false);
+  }, []);
+
+  // Eye calibration
+  const startEyeCalibration = useCallback(() => {
+    eyeCalibratorRef.current.reset();
+    setEyeCalibrationStatus({ phase: 'open', progress: 0, result: null });
+    isCalibratingEyesRef.current = true;
+  }, []);
+
+  const saveEyeCalibration = useCallback((thresholds: EyeThresholds) => {
+    const { calibration, saveCalibration } = storeRef.current;
+    saveCalibration({ ...calibration, ...thresholds });
+  }, []);
+
+  const closeEyeCalibration = useCallback(() => {
+    isCalibratingEyesRef.current = false;
+    setEyeCalibrationStatus(null);
+    setShowEyeCalibration(false);
+  }, []);
+
   // Handle keyboard input
   const handleKeyPress = useCallback((key: string) => {
-    // For now, just log the key press - in a real app, this would interact with the OS
-    console.log('Key pressed:', key);
+    // Type at OS level through the companion, or into the focused text field on the page
+    pressKey(key);
     if (storeRef.current.settings.soundEnabled) {
       audioFeedback.keyPress();
     }
-  }, []);
+  }, [pressKey]);
 
   // Cleanup
   useEffect(() => {
@@ -312,6 +927,88 @@ export function AccessMateApp() {
     voiceFeedback.setPitch(store.settings.voicePitch);
   }, [store.settings.soundEnabled, store.settings.soundVolume, store.settings.voiceFeedbackEnabled, store.settings.voiceRate, store.settings.voicePitch]);
 
+  // Rebuild the cursor filters only when the smoothing settings change - rebuilding drops
+  // their state, which makes the cursor jump
+  useEffect(() => {
+    const filterConfig = {
+      type: store.settings.smoothingFilter,
+      smoothing: store.settings.cursorSmoothing,
+      minCutoff: store.settings.oneEuroMinCutoff,
+      beta: store.settings.oneEuroBeta,
+      processNoise: store.settings.kalmanProcessNoise,
+      measurementNoise: store.settings.kalmanMeasurementNoise,
+    };
+    headTrackerRef.current.setFilter(filterConfig);
+    handPointerRef.current.setFilter(filterConfig);
+  }, [
+    store.settings.cursorSmoothing,
+    store.settings.smoothingFilter,
+    store.settings.oneEuroMinCutoff,
+    store.settings.oneEuroBeta,
+    store.settings.kalmanProcessNoise,
+    store.settings.kalmanMeasurementNoise,
+  ]);
+
+  useEffect(() => {
+    headTrackerRef.current.setTremorSuppression(store.settings.tremorSuppression, store.settings.jerkSpeedThreshold);
+    handPointerRef.current.setTremorSuppression(store.settings.tremorSuppression, store.settings.jerkSpeedThreshold);
+  }, [store.settings.tremorSuppression, store.settings.jerkSpeedThreshold]);
+
+  // Reconfigure the running detectors whenever their settings change
+  useEffect(() => {
+    eyeDetectorRef.current.setOpenThreshold(store.settings.winkThreshold);
+    eyeDetectorRef.current.setLongBlinkTime(store.settings.longBlinkTime);
+    mouthDetectorRef.current.setOpenThreshold(store.settings.mouthThreshold);
+    faceTriggerDetectorRef.current.setTimings(store.settings.faceTriggerTimings);
+    headGestureRecognizer.setThresholds(store.settings.headGestureAmplitude, store.settings.headGestureSpeed);
+    for (const recognizer of Object.values(handRecognizersRef.current)) {
+      recognizer.setHoldTime(store.settings.gestureHoldTime);
+      recognizer.setMinConfidence(store.settings.minGestureConfidence);
+      recognizer.setCustomGestures(store.customGestures, store.settings.customGestureThreshold);
+    }
+    twoHandRecognizerRef.current.setHoldTime(store.settings.gestureHoldTime);
+    sequenceMatcherRef.current.setBindings(store.gestureBindings);
+    sequenceMatcherRef.current.setTimeout(store.settings.sequenceTimeout);
+    dwellEngineRef.current.setDwellTime(store.settings.dwellTime);
+    dwellEngineRef.current.setRadius(store.settings.dwellRadius);
+    driftCorrector.setEnabled(store.settings.driftCorrectionEnabled);
+  }, [
+    store.settings.winkThreshold,
+    store.settings.longBlinkTime,
+    store.settings.mouthThreshold,
+    store.settings.faceTriggerTimings,
+    store.settings.headGestureAmplitude,
+    store.settings.headGestureSpeed,
+    store.settings.gestureHoldTime,
+    store.settings.minGestureConfidence,
+    store.customGestures,
+    store.settings.customGestureThreshold,
+    store.gestureBindings,
+    store.settings.sequenceTimeout,
+    store.settings.dwellTime,
+    store.settings.dwellRadius,
+    store.settings.driftCorrectionEnabled,
+  ]);
+
+  // Connect to the companion daemon for OS-level input when enabled
+  useEffect(() => companionClient.subscribe(setCompanionStatus), []);
+
+  useEffect(() => {
+    if (store.settings.companionEnabled) {
+      companionClient.enable(store.settings.companionUrl);
+    } else {
+      companionClient.disable();
+    }
+  }, [store.settings.companionEnabled, store.settings.companionUrl]);
+
+  // Apply the saved calibration to the head tracker, hand pointer and eye detector
+  useEffect(() => {
+    headTrackerRef.current.setCalibration(store.calibration);
+    handPointerRef.current.setCalibration(store.calibration);
+    eyeDetectorRef.current.setCalibration(store.calibration);
+    headGestureRecognizer.setRanges(store.calibration.rangeYaw, store.calibration.rangePitch);
+  }, [store.calibration]);
+
   // Initialize fatigue detector when session starts
   useEffect(() => {
     if (store.isCameraActive) {
@@ -339,6 +1036,20 @@ export function AccessMateApp() {
     return () => clearInterval(interval);
   }, [store.isCameraActive, store.settings.fatigueDetectionEnabled, store.settings.breakRemindersEnabled, showBreakReminder]);
 
+  // Poll the tremor profile for the debug overlay
+  useEffect(() => {
+    if (!store.isCameraActive || !store.settings.showDebugOverlay) return;
+
+    const cursorMode = store.settings.cursorMode;
+    const interval = setInterval(() => {
+      setTremorProfile(cursorMode === 'hand'
+        ? handPointerRef.current.getTremorProfile()
+        : headTrackerRef.current.getTremorProfile(cursorMode === 'nose' ? 'nose' : 'rotation'));
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [store.isCameraActive, store.settings.showDebugOverlay, store.settings.cursorMode]);
+
   // Handle break
   const handleTakeBreak = useCallback(() => {
     fatigueDetector.recordBreak();
@@ -346,6 +1057,10 @@ export function AccessMateApp() {
     setShowBreakReminder(false);
   }, []);
 
+  const activeMode = getCommandMode(store.commandMode);
+  const activeMappings = store.modeMappings[store.commandMode];
+  const currentGestureCommand = resolveGestureCommand(store.detection.currentGesture, activeMappings.gestures);
+
   // Destructure for rendering
   const {
     isActive,
@@ -362,7 +1077,7 @@ export function AccessMateApp() {
     togglePause,
     setShowKeyboard,
     setShowQuickActions,
-    saveCalibration,
+    cycleCommandMode,
   } = store;
 
   return (
@@ -397,11 +1112,33 @@ export function AccessMateApp() {
                 {detection.isFaceDetected ? 'Face OK' : 'No Face'}
               </StatusBadge>
               <StatusBadge status={detection.isHandDetected ? 'info' : 'warning'} pulse={detection.isHandDetected}>
-                {detection.isHandDetected ? `${detection.fingerCount} Fingers` : 'No Hand'}
+                {detection.isHandDetected
+                  ? detection.handCount > 1 ? '2 Hands' : `${detection.fingerCount} Fingers`
+                  : 'No Hand'}
               </StatusBadge>
+              {/* Active command mode - click to switch */}
+              <button onClick={cycleCommandMode} title={activeMode.description} aria-label={`${activeMode.label} mode, switch mode`}>
+                <StatusBadge status={activeMode.freezesCursor ? 'warning' : 'info'}>
+                  {activeMode.icon} {activeMode.label}
+                </StatusBadge>
+              </button>
               {isPaused && (
                 <StatusBadge status="warning">PAUSED</StatusBadge>
               )}
+              {isRecording && (
+                <StatusBadge status="error" pulse>REC</StatusBadge>
+              )}
+              {companionStatus !== 'disabled' && (
+                <StatusBadge
+                  status={COMPANION_BADGE[companionStatus].status}
+                  pulse={companionStatus === 'connecting'}
+                >
+                  {COMPANION_BADGE[companionStatus].label}
+                </StatusBadge>
+              )}
+              {isReplaying && (
+                <StatusBadge status="info">REPLAY</StatusBadge>
+              )}
               {/* Settings button */}
               <button
                 onClick={() => setShowSettings(true)}
@@ -433,44 +1170,6 @@ export function AccessMateApp() {
                   className="absolute inset-0 w-full h-full object-cover transform scale-x-[-1] pointer-events-none"
                 />
 
-                {/* Cursor indicator overlay */}
-                {isActive && !isPaused && detection.isFaceDetected && (
-                  <motion.div
-                    className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none z-10"
-                    style={{ width: settings.cursorSize, height: settings.cursorSize }}
-                    animate={{
-                      left: `${cursor.x * 100}%`,
-                      top: `${cursor.y * 100}%`,
-                    }}
-                    transition={{ type: 'spring', damping: 20, stiffness: 300 }}
-                  >
-                    <div
-                      className={`w-full h-full rounded-full border-4 ${
-                        cursor.isClicking
-                          ? 'bg-green-500/50 border-green-400'
-                          : cursor.isDragging
-                          ? 'bg-yellow-500/50 border-yellow-400'
-                          : 'bg-primary-500/30 border-primary-400'
-                      }`}
-                    />
-                    {/* Dwell progress ring */}
-                    {cursor.isDwelling && cursor.dwellProgress > 0 && (
-                      <svg className="absolute inset-0 w-full h-full -rotate-90">
-                        <circle
-                          cx="50%"
-                          cy="50%"
-                          r="45%"
-                          fill="none"
-                          stroke="#22c55e"
-                          strokeWidth="4"
-                          strokeDasharray={`${cursor.dwellProgress * 283} 283`}
-                          strokeLinecap="round"
-                        />
-                      </svg>
-                    )}
-                  </motion.div>
-                )}
-
                 {/* Status overlay */}
                 {!isCameraActive && (
                   <div className="absolute inset-0 flex items-center justify-center bg-black/60">
@@ -482,6 +1181,15 @@ export function AccessMateApp() {
                   </div>
                 )}
 
+                {/* Replay overlay */}
+                {isReplaying && (
+                  <div className="absolute top-4 left-4 pointer-events-none">
+                    <GlassCard className="px-4 py-2" hover={false}>
+                      <p className="text-sm text-white/80">▶ Replaying recorded session ({replaySpeed}x)</p>
+                    </GlassCard>
+                  </div>
+                )}
+
                 {/* Loading overlay */}
                 {isCameraLoading && (
                   <div className="absolute inset-0 flex items-center justify-center bg-black/60">
@@ -504,7 +1212,15 @@ export function AccessMateApp() {
                       <div className="flex items-center gap-2">
                         <span className="text-2xl">{getGestureEmoji(detection.currentGesture)}</span>
                         <span className="text-sm text-white/80">
-                          {getGestureDescription(detection.currentGesture)}
+                          {getGestureDescription(detection.currentGesture, store.customGestures)}
+                          {currentGestureCommand && ` - ${COMMANDS[currentGestureCommand].label}`}
+                        </span>
+                        <span
+                          className={`text-xs ${
+                            detection.gestureConfidence >= settings.minGestureConfidence ? 'text-green-400' : 'text-white/40'
+                          }`}
+                        >
+                          {Math.round(detection.gestureConfidence * 100)}%
                         </span>
                       </div>
                     </GlassCard>
@@ -521,14 +1237,48 @@ export function AccessMateApp() {
               <h3 className="text-lg font-semibold text-white mb-4">Controls</h3>
               <div className="space-y-3">
                 {!isCameraActive ? (
-                  <GlassButton
-                    variant="primary"
-                    className="w-full"
-                    onClick={initializeCamera}
-                    disabled={isCameraLoading}
-                  >
-                    {isCameraLoading ? 'Starting...' : '📷 Start Camera'}
-                  </GlassButton>
+                  <>
+                    <GlassButton
+                      variant="primary"
+                      className="w-full"
+                      onClick={initializeCamera}
+                      disabled={isCameraLoading}
+                    >
+                      {isCameraLoading ? 'Starting...' : '📷 Start Camera'}
+                    </GlassButton>
+                    <div className="flex gap-2">
+                      <GlassButton
+                        variant="default"
+                        className="flex-1"
+                        onClick={() => replayInputRef.current?.click()}
+                        disabled={isCameraLoading}
+                      >
+                        📂 Replay Recording
+                      </GlassButton>
+                      <select
+                        value={replaySpeed}
+                        onChange={(e) => setReplaySpeed(parseFloat(e.target.value))}
+                        className="px-3 rounded-xl bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                      >
+                        {[1, 2, 4, 8].map((speed) => (
+                          <option key={speed} value={speed} className="bg-gray-800">
+                            {speed}x
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <input
+                      ref={replayInputRef}
+                      type="file"
+                      accept=".jsonl,application/x-ndjson"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) startReplay(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </>
                 ) : (
                   <>
                     <GlassButton
@@ -554,12 +1304,29 @@ export function AccessMateApp() {
                     >
                       🎯 Calibrate
                     </GlassButton>
+                    <GlassButton
+                      variant="default"
+                      className="w-full"
+                      onClick={recenter}
+                      disabled={!detection.isFaceDetected || settings.cursorMode === 'hand'}
+                    >
+                      ⊕ Re-center
+                    </GlassButton>
+                    {!isReplaying && (
+                      <GlassButton
+                        variant={isRecording ? 'danger' : 'default'}
+                        className="w-full"
+                        onClick={isRecording ? stopRecording : startRecording}
+                      >
+                        {isRecording ? '💾 Stop & Save Recording' : '⏺ Record Session'}
+                      </GlassButton>
+                    )}
                     <GlassButton
                       variant="danger"
                       className="w-full"
                       onClick={stopCamera}
                     >
-                      ⏹ Stop Camera
+                      {isReplaying ? '⏹ Stop Replay' : '⏹ Stop Camera'}
                     </GlassButton>
                   </>
                 )}
@@ -613,17 +1380,58 @@ export function AccessMateApp() {
                     X:{detection.headX.toFixed(2)} Y:{detection.headY.toFixed(2)}
                   </span>
                 </div>
+                {detection.faceTrigger && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-white/60">Face</span>
+                    <span className="text-primary-400">
+                      {FACE_GESTURE_OPTIONS.find((option) => option.value === detection.faceTrigger)?.label}
+                    </span>
+                  </div>
+                )}
                 {detection.currentGesture && (
                   <div className="flex justify-between items-center">
                     <span className="text-white/60">Gesture</span>
                     <span className="text-primary-400">
-                      {getGestureEmoji(detection.currentGesture)} {detection.currentGesture}
+                      {getGestureEmoji(detection.currentGesture)} {getGestureDescription(detection.currentGesture, store.customGestures)}
                     </span>
                   </div>
                 )}
               </div>
             </GlassCard>
 
+            {/* Tremor profile (debug overlay) */}
+            {settings.showDebugOverlay && tremorProfile && (
+              <GlassCard hover={false}>
+                <h3 className="text-lg font-semibold text-white mb-4">Tremor Profile</h3>
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-white/60">Tremor</span>
+                    <span className={tremorProfile.isTremor ? 'text-yellow-400' : 'text-white/40'}>
+                      {tremorProfile.isTremor ? 'Detected' : 'None'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-white/60">Frequency</span>
+                    <span className="text-white/80 font-mono text-sm">{tremorProfile.frequency.toFixed(1)} Hz</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-white/60">Amplitude</span>
+                    <span className="text-white/80 font-mono text-sm">{(tremorProfile.amplitude * 100).toFixed(1)}%</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-white/60">Jerks Ignored</span>
+                    <span className="text-white/80 font-mono text-sm">{tremorProfile.jerkCount}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-white/60">Suppression</span>
+                    <span className={settings.tremorSuppression ? 'text-green-400' : 'text-white/40'}>
+                      {settings.tremorSuppression ? 'On' : 'Off'}
+                    </span>
+                  </div>
+                </div>
+              </GlassCard>
+            )}
+
             {/* Session Stats */}
             <GlassCard hover={false}>
               <h3 className="text-lg font-semibold text-white mb-4">Session Stats</h3>
@@ -644,17 +1452,33 @@ export function AccessMateApp() {
         {/* Gesture Guide */}
         <div className="max-w-7xl mx-auto mt-6">
           <GlassCard hover={false}>
-            <h3 className="text-lg font-semibold text-white mb-4">How to Use</h3>
+            <h3 className="text-lg font-semibold text-white mb-4">How to Use - {activeMode.icon} {activeMode.label} Mode</h3>
             <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-4">
               {[
                 { gesture: '🔄', label: 'Head Move', action: 'Move Cursor' },
-                { gesture: '😉', label: 'Left Wink', action: 'Left Click' },
-                { gesture: '😜', label: 'Right Wink', action: 'Right Click' },
-                { gesture: '😮', label: 'Mouth Open', action: 'Drag Mode' },
-                { gesture: '✊', label: 'Fist', action: 'Cancel' },
-                { gesture: '🖐️', label: 'Open Palm', action: 'Pause' },
-                { gesture: '🤙', label: 'Call Me', action: 'Keyboard' },
-                { gesture: '🤘', label: 'Rock Sign', action: 'Quick Menu' },
+                {
+                  gesture: getGestureEmoji(settings.modeCycleGesture),
+                  label: getGestureDescription(settings.modeCycleGesture),
+                  action: 'Switch Mode',
+                },
+                // The active mode's face and gesture mappings
+                ...activeMappings.face
+                  .filter((mapping) => mapping.enabled && mapping.action in COMMANDS)
+                  .map((mapping) => {
+                    const face = FACE_GESTURE_OPTIONS.find((option) => option.value === mapping.gesture);
+                    return {
+                      gesture: face?.icon ?? '🙂',
+                      label: face?.label ?? mapping.gesture,
+                      action: COMMANDS[mapping.action].label,
+                    };
+                  }),
+                ...activeMappings.gestures
+                  .filter((mapping) => mapping.enabled && mapping.action in COMMANDS)
+                  .map((mapping) => ({
+                    gesture: getGestureEmoji(mapping.gesture),
+                    label: getGestureDescription(mapping.gesture, store.customGestures),
+                    action: COMMANDS[mapping.action].label,
+                  })),
               ].map((item) => (
                 <div
                   key={item.label}
@@ -670,6 +1494,21 @@ export function AccessMateApp() {
         </div>
       </main>
 
+      {/* Viewport cursor */}
+      <CursorOverlay
+        cursor={cursor}
+        size={settings.cursorSize}
+        visible={isActive && !isPaused && (settings.cursorMode === 'hand' ? detection.isHandDetected : detection.isFaceDetected)}
+        reduceMotion={settings.reduceMotion}
+      />
+
+      {/* Partly made gesture sequence or chord */}
+      <SequenceIndicator
+        progress={detection.sequenceProgress}
+        customGestures={store.customGestures}
+        reduceMotion={settings.reduceMotion}
+      />
+
       {/* Virtual Keyboard */}
       <VirtualKeyboard
         isOpen={showKeyboard}
@@ -689,8 +1528,9 @@ export function AccessMateApp() {
         isOpen={showCalibration}
         onClose={() => setShowCalibration(false)}
         onCalibrate={handleCalibrate}
-        onComplete={saveCalibration}
-        isFaceDetected={detection.isFaceDetected}
+        onComplete={completeCalibration}
+        source={settings.cursorMode === 'hand' ? 'hand' : 'head'}
+        isDetected={settings.cursorMode === 'hand' ? detection.isHandDetected : detection.isFaceDetected}
         soundEnabled={settings.soundEnabled}
       />
 
@@ -698,6 +1538,46 @@ export function AccessMateApp() {
       <AccessibilitySettings
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
+        onTrainGesture={() => {
+          setShowSettings(false);
+          setShowGestureTrainer(true);
+        }}
+        onCalibrateEyes={() => {
+          setShowSettings(false);
+          setShowEyeCalibration(true);
+        }}
+      />
+
+      {/* Eye Calibration */}
+      <EyeCalibrationDialog
+        isOpen={showEyeCalibration}
+        onClose={closeEyeCalibration}
+        onStart={startEyeCalibration}
+        onSave={saveEyeCalibration}
+        status={eyeCalibrationStatus}
+        isFaceDetected={detection.isFaceDetected}
+      />
+
+      {/* Custom Gesture Trainer */}
+      <CustomGestureTrainer
+        isOpen={showGestureTrainer}
+        onClose={closeGestureTrainer}
+        onStartRecording={startGestureTraining}
+        onSave={saveCustomGesture}
+        progress={trainingProgress}
+        isHandDetected={detection.isHandDetected}
+      />
+
+      {/* Re-center Prompt */}
+      <RecenterPrompt
+        isVisible={showRecenterPrompt}
+        onRecenter={recenter}
+        onRecalibrate={() => {
+          setShowRecenterPrompt(false);
+          setShowCalibration(true);
+        }}
+        onDismiss={() => setShowRecenterPrompt(false)}
+        reduceMotion={settings.reduceMotion}
       />
 
       {/* Break Reminder */}
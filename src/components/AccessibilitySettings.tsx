@@ -1,12 +1,34 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GlassCard, GlassButton } from './ui/GlassCard';
-import { useAccessMateStore } from '../store/useAccessMateStore';
+import { CurveEditor } from './CurveEditor';
+import {
+  useAccessMateStore,
+  type ClickMode,
+  type CursorMode,
+  type HandRole,
+  type PrimaryHand,
+} from '../store/useAccessMateStore';
+import { COMMAND_MODES, FACE_GESTURE_OPTIONS, type CommandModeId } from '../utils/commandModes';
+import { ACTION_OPTIONS, type CommandId } from '../utils/commandRegistry';
 import type { GestureType } from '../utils/gestureCommands';
+import type { SmoothingFilterType } from '../utils/signalFilters';
+import { TWO_HAND_GESTURES, type TwoHandGestureType } from '../utils/twoHandGestures';
+import { FACE_TRIGGERS, type FaceTriggerType } from '../utils/faceTriggers';
+import { MOTION_GESTURES, type MotionGestureType } from '../utils/motionGestures';
+import { driftCorrector, type CalibrationAdjustment, type DriftLogEntry } from '../utils/driftCorrection';
+import {
+  getInputGestureIcon,
+  getInputGestureLabel,
+  type GestureBindingType,
+  type InputGesture,
+} from '../utils/gestureSequences';
 
 interface AccessibilitySettingsProps {
   isOpen: boolean;
   onClose: () => void;
+  onTrainGesture: () => void;
+  onCalibrateEyes: () => void;
 }
 
 const GESTURE_OPTIONS: { value: GestureType; label: string; icon: string }[] = [
@@ -16,36 +38,115 @@ const GESTURE_OPTIONS: { value: GestureType; label: string; icon: string }[] = [
   { value: 'thumbsDown', label: 'Thumbs Down', icon: '👎' },
   { value: 'peaceSign', label: 'Peace Sign', icon: '✌️' },
   { value: 'pointUp', label: 'Point Up', icon: '☝️' },
+  { value: 'pointLeft', label: 'Point Left', icon: '👈' },
+  { value: 'pointRight', label: 'Point Right', icon: '👉' },
   { value: 'rockSign', label: 'Rock Sign', icon: '🤘' },
   { value: 'callMe', label: 'Call Me', icon: '🤙' },
   { value: 'ok', label: 'OK Sign', icon: '👌' },
+  { value: 'threeFingers', label: 'Three Fingers', icon: '3️⃣' },
+  { value: 'swipeLeft', label: 'Swipe Left', icon: '⬅️' },
+  { value: 'swipeRight', label: 'Swipe Right', icon: '➡️' },
+  { value: 'swipeUp', label: 'Swipe Up', icon: '⬆️' },
+  { value: 'swipeDown', label: 'Swipe Down', icon: '⬇️' },
+  { value: 'circleClockwise', label: 'Circle Clockwise', icon: '🔃' },
+  { value: 'circleCounterClockwise', label: 'Circle Counter-Clockwise', icon: '🔄' },
+  { value: 'push', label: 'Push', icon: '🫸' },
+  { value: 'pull', label: 'Pull', icon: '🫷' },
+  { value: 'bothPalms', label: 'Both Palms', icon: '🙌' },
+  { value: 'bothFists', label: 'Both Fists', icon: '👊' },
+  { value: 'pinchSpread', label: 'Two-Hand Pinch Spread', icon: '🤏' },
+  { value: 'pinchSqueeze', label: 'Two-Hand Pinch Squeeze', icon: '🤏' },
 ];
 
-const ACTION_OPTIONS = [
-  { value: 'click', label: 'Click' },
-  { value: 'doubleClick', label: 'Double Click' },
-  { value: 'rightClick', label: 'Right Click' },
-  { value: 'scroll', label: 'Scroll Mode' },
-  { value: 'drag', label: 'Drag Mode' },
-  { value: 'keyboard', label: 'Open Keyboard' },
-  { value: 'quickActions', label: 'Quick Actions' },
-  { value: 'pause', label: 'Pause Control' },
-  { value: 'escape', label: 'Escape' },
-  { value: 'enter', label: 'Enter' },
-  { value: 'back', label: 'Go Back' },
-  { value: 'forward', label: 'Go Forward' },
+const PRIMARY_HAND_OPTIONS: { value: PrimaryHand; label: string }[] = [
+  { value: 'either', label: 'Either hand (same mappings)' },
+  { value: 'right', label: 'Right hand' },
+  { value: 'left', label: 'Left hand' },
 ];
 
+const CURSOR_MODE_OPTIONS: { value: CursorMode; label: string; description: string }[] = [
+  { value: 'head', label: 'Head Pointing', description: 'Turn or nod your head to point' },
+  { value: 'nose', label: 'Nose Position', description: 'Move your nose tip across the camera view to point' },
+  { value: 'joystick', label: 'Joystick', description: 'Tilt your head past the dead zone to push the cursor' },
+  { value: 'hand', label: 'Hand Pointing', description: 'Point with your index finger; pinch thumb and index to click or hold to drag, thumb and middle to right click' },
+  { value: 'disabled', label: 'Disabled', description: 'Keep the cursor still' },
+];
+
+const SMOOTHING_FILTER_OPTIONS: { value: SmoothingFilterType; label: string; description: string }[] = [
+  { value: 'oneEuro', label: 'Adaptive (One Euro)', description: 'Steady when still, responsive on fast moves' },
+  { value: 'kalman', label: 'Predictive (Kalman)', description: 'Follows the motion trend to cut lag on smooth sweeps' },
+  { value: 'exponential', label: 'Simple', description: 'Fixed smoothing - trades jitter against lag' },
+];
+
+const CLICK_MODE_OPTIONS: { value: ClickMode; label: string }[] = [
+  { value: 'wink', label: 'Wink (left / right click)' },
+  { value: 'dwell', label: 'Dwell (hover to click)' },
+  { value: 'gesture', label: 'Hand gestures only' },
+  { value: 'disabled', label: 'Disabled' },
+];
+
+function isFaceTrigger(gesture: string): gesture is FaceTriggerType {
+  return FACE_TRIGGERS.includes(gesture as FaceTriggerType);
+}
+
+// Chords are held together, so only gestures that stay on while held can be part of one
+function isHoldable(gesture: InputGesture): boolean {
+  return !MOTION_GESTURES.includes(gesture as MotionGestureType) &&
+    !TWO_HAND_GESTURES.includes(gesture as TwoHandGestureType) &&
+    gesture !== 'doubleBlink' && gesture !== 'longBlink';
+}
+
 type SettingsTab = 'cursor' | 'gestures' | 'audio' | 'display' | 'advanced';
 
-export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettingsProps) {
+const ADJUSTMENT_LABELS: Record<CalibrationAdjustment, string> = {
+  drift: 'Drift',
+  recenter: 'Re-center',
+  calibrate: 'Calibration',
+};
+
+export function AccessibilitySettings({ isOpen, onClose, onTrainGesture, onCalibrateEyes }: AccessibilitySettingsProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>('cursor');
   const {
     settings,
     updateSettings,
-    gestureMappings,
+    commandMode,
+    modeMappings,
     updateGestureMapping,
+    updateFaceMapping,
+    customGestures,
+    removeCustomGesture,
+    gestureBindings,
+    addGestureBinding,
+    updateGestureBinding,
+    removeGestureBinding,
+    calibration,
+    saveCalibration,
   } = useAccessMateStore();
+  // Changes of the head centre this session, newest first
+  const [driftLog, setDriftLog] = useState<DriftLogEntry[]>(driftCorrector.getLog());
+  useEffect(() => driftCorrector.subscribe(setDriftLog), []);
+  // Mode whose mappings are being edited; starts at the active one
+  const [editingMode, setEditingMode] = useState<CommandModeId>(commandMode);
+  const editingMappings = modeMappings[editingMode];
+  // With a primary hand set, the other hand has its own mappings
+  const [editingRole, setEditingRole] = useState<HandRole>('primary');
+  const editedRole: HandRole = settings.primaryHand === 'either' ? 'primary' : editingRole;
+  const editingGestures = editedRole === 'primary'
+    ? editingMappings.gestures
+    : editingMappings.secondaryGestures.filter(
+        (mapping) => !TWO_HAND_GESTURES.includes(mapping.gesture as TwoHandGestureType)
+      );
+
+  // Sequence or chord being put together
+  const [newBindingType, setNewBindingType] = useState<GestureBindingType>('sequence');
+  const [newBindingSteps, setNewBindingSteps] = useState<InputGesture[]>([]);
+  const [newBindingAction, setNewBindingAction] = useState<CommandId>('click');
+  const stepOptions: { value: InputGesture; label: string; icon: string }[] = [
+    ...GESTURE_OPTIONS.flatMap((option) => (option.value ? [{ ...option, value: option.value }] : [])),
+    ...customGestures.map((template) => ({ value: template.id, label: template.name, icon: '⭐' })),
+    ...FACE_GESTURE_OPTIONS,
+  ].filter((option) => newBindingType === 'sequence' || isHoldable(option.value));
+  const [stepToAdd, setStepToAdd] = useState<InputGesture>('fist');
 
   const tabs: { id: SettingsTab; label: string; icon: string }[] = [
     { id: 'cursor', label: 'Cursor', icon: '🖱️' },
@@ -113,6 +214,25 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                     <div className="space-y-6">
                       <h3 className="text-lg font-semibold text-white mb-4">Cursor Settings</h3>
 
+                      {/* Cursor Mode */}
+                      <div className="space-y-2">
+                        <label className="text-white/80">Cursor Control</label>
+                        <select
+                          value={settings.cursorMode}
+                          onChange={(e) => updateSettings({ cursorMode: e.target.value as CursorMode })}
+                          className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                        >
+                          {CURSOR_MODE_OPTIONS.map((mode) => (
+                            <option key={mode.value} value={mode.value} className="bg-gray-800">
+                              {mode.label}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-white/50">
+                          {CURSOR_MODE_OPTIONS.find((mode) => mode.value === settings.cursorMode)?.description}
+                        </p>
+                      </div>
+
                       {/* Cursor Speed */}
                       <div className="space-y-2">
                         <label className="text-white/80 flex items-center justify-between">
@@ -134,22 +254,214 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                         </div>
                       </div>
 
-                      {/* Cursor Smoothing */}
+                      {/* Acceleration Curve */}
+                      <div className="space-y-2">
+                        <label className="text-white/80">Acceleration Curve</label>
+                        <CurveEditor
+                          curve={settings.cursorCurve}
+                          onChange={(cursorCurve) => updateSettings({ cursorCurve })}
+                        />
+                      </div>
+
+                      {/* Per-axis gain */}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <label className="text-white/80 flex items-center justify-between">
+                            <span>Horizontal Gain</span>
+                            <span className="text-primary-400">{settings.cursorGainX.toFixed(1)}x</span>
+                          </label>
+                          <input
+                            type="range"
+                            min="0.5"
+                            max="3"
+                            step="0.1"
+                            value={settings.cursorGainX}
+                            onChange={(e) => updateSettings({ cursorGainX: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-white/80 flex items-center justify-between">
+                            <span>Vertical Gain</span>
+                            <span className="text-primary-400">{settings.cursorGainY.toFixed(1)}x</span>
+                          </label>
+                          <input
+                            type="range"
+                            min="0.5"
+                            max="3"
+                            step="0.1"
+                            value={settings.cursorGainY}
+                            onChange={(e) => updateSettings({ cursorGainY: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-white/50">Boost one axis if your head moves less in that direction</p>
+
+                      {/* Dead Zone */}
                       <div className="space-y-2">
                         <label className="text-white/80 flex items-center justify-between">
-                          <span>Cursor Smoothing</span>
-                          <span className="text-primary-400">{Math.round(settings.cursorSmoothing * 100)}%</span>
+                          <span>Dead Zone</span>
+                          <span className="text-primary-400">{Math.round(settings.deadZone * 100)}%</span>
                         </label>
                         <input
                           type="range"
                           min="0"
-                          max="1"
-                          step="0.05"
-                          value={settings.cursorSmoothing}
-                          onChange={(e) => updateSettings({ cursorSmoothing: parseFloat(e.target.value) })}
+                          max="0.3"
+                          step="0.01"
+                          value={settings.deadZone}
+                          onChange={(e) => updateSettings({ deadZone: parseFloat(e.target.value) })}
                           className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
                         />
-                        <p className="text-xs text-white/50">Higher smoothing reduces jitter but increases lag</p>
+                        <p className="text-xs text-white/50">Small head movements inside this zone are ignored</p>
+                      </div>
+
+                      {/* Cursor Smoothing */}
+                      <div className="space-y-2">
+                        <label className="text-white/80">Smoothing Filter</label>
+                        <select
+                          value={settings.smoothingFilter}
+                          onChange={(e) => updateSettings({ smoothingFilter: e.target.value as SmoothingFilterType })}
+                          className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                        >
+                          {SMOOTHING_FILTER_OPTIONS.map((filter) => (
+                            <option key={filter.value} value={filter.value} className="bg-gray-800">
+                              {filter.label}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-white/50">
+                          {SMOOTHING_FILTER_OPTIONS.find((f) => f.value === settings.smoothingFilter)?.description}
+                        </p>
+                      </div>
+
+                      {settings.smoothingFilter === 'exponential' && (
+                        <div className="space-y-2">
+                          <label className="text-white/80 flex items-center justify-between">
+                            <span>Cursor Smoothing</span>
+                            <span className="text-primary-400">{Math.round(settings.cursorSmoothing * 100)}%</span>
+                          </label>
+                          <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={settings.cursorSmoothing}
+                            onChange={(e) => updateSettings({ cursorSmoothing: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                          <p className="text-xs text-white/50">Higher smoothing reduces jitter but increases lag</p>
+                        </div>
+                      )}
+
+                      {settings.smoothingFilter === 'oneEuro' && (
+                        <>
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Minimum Cutoff</span>
+                              <span className="text-primary-400">{settings.oneEuroMinCutoff.toFixed(1)} Hz</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="0.1"
+                              max="5"
+                              step="0.1"
+                              value={settings.oneEuroMinCutoff}
+                              onChange={(e) => updateSettings({ oneEuroMinCutoff: parseFloat(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">Lower values hold the cursor steadier when your head is still</p>
+                          </div>
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Speed Response</span>
+                              <span className="text-primary-400">{settings.oneEuroBeta.toFixed(1)}</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="0"
+                              max="5"
+                              step="0.1"
+                              value={settings.oneEuroBeta}
+                              onChange={(e) => updateSettings({ oneEuroBeta: parseFloat(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">Higher values reduce lag during fast head movements</p>
+                          </div>
+                        </>
+                      )}
+
+                      {settings.smoothingFilter === 'kalman' && (
+                        <>
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Responsiveness</span>
+                              <span className="text-primary-400">{settings.kalmanProcessNoise}</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="1"
+                              max="100"
+                              step="1"
+                              value={settings.kalmanProcessNoise}
+                              onChange={(e) => updateSettings({ kalmanProcessNoise: parseInt(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">Higher values follow sudden changes in direction more quickly</p>
+                          </div>
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Noise Rejection</span>
+                              <span className="text-primary-400">{(settings.kalmanMeasurementNoise * 10000).toFixed(0)}</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="0.0001"
+                              max="0.005"
+                              step="0.0001"
+                              value={settings.kalmanMeasurementNoise}
+                              onChange={(e) => updateSettings({ kalmanMeasurementNoise: parseFloat(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">Higher values ignore more tracking jitter but add lag</p>
+                          </div>
+                        </>
+                      )}
+
+                      {/* Jerk Sensitivity */}
+                      {settings.tremorSuppression && (
+                        <div className="space-y-2">
+                          <label className="text-white/80 flex items-center justify-between">
+                            <span>Jerk Sensitivity</span>
+                            <span className="text-primary-400">{settings.jerkSpeedThreshold.toFixed(1)}</span>
+                          </label>
+                          <input
+                            type="range"
+                            min="2"
+                            max="15"
+                            step="0.5"
+                            value={settings.jerkSpeedThreshold}
+                            onChange={(e) => updateSettings({ jerkSpeedThreshold: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                          <p className="text-xs text-white/50">Lower values catch gentler jerks but may briefly hold fast intentional moves</p>
+                        </div>
+                      )}
+
+                      {/* Click Mode */}
+                      <div className="space-y-2">
+                        <label className="text-white/80">Click Method</label>
+                        <select
+                          value={settings.clickMode}
+                          onChange={(e) => updateSettings({ clickMode: e.target.value as ClickMode })}
+                          className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                        >
+                          {CLICK_MODE_OPTIONS.map((mode) => (
+                            <option key={mode.value} value={mode.value} className="bg-gray-800">
+                              {mode.label}
+                            </option>
+                          ))}
+                        </select>
                       </div>
 
                       {/* Dwell Time */}
@@ -170,6 +482,24 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                         <p className="text-xs text-white/50">Time to hover over an element before clicking</p>
                       </div>
 
+                      {/* Dwell Radius */}
+                      <div className="space-y-2">
+                        <label className="text-white/80 flex items-center justify-between">
+                          <span>Dwell Radius</span>
+                          <span className="text-primary-400">{Math.round(settings.dwellRadius * 100)}%</span>
+                        </label>
+                        <input
+                          type="range"
+                          min="0.01"
+                          max="0.1"
+                          step="0.01"
+                          value={settings.dwellRadius}
+                          onChange={(e) => updateSettings({ dwellRadius: parseFloat(e.target.value) })}
+                          className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                        />
+                        <p className="text-xs text-white/50">How far the cursor may drift while dwelling, as a share of the screen</p>
+                      </div>
+
                       {/* Toggle options */}
                       <div className="space-y-3 pt-4 border-t border-white/10">
                         <ToggleSetting
@@ -178,6 +508,12 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                           enabled={settings.dwellClickEnabled}
                           onChange={(v) => updateSettings({ dwellClickEnabled: v })}
                         />
+                        <ToggleSetting
+                          label="Tremor Suppression"
+                          description="Filter out shaking and ignore sudden involuntary jerks"
+                          enabled={settings.tremorSuppression}
+                          onChange={(v) => updateSettings({ tremorSuppression: v })}
+                        />
                         <ToggleSetting
                           label="Edge Scrolling"
                           description="Scroll when cursor reaches screen edges"
@@ -192,12 +528,70 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                     <div className="space-y-6">
                       <h3 className="text-lg font-semibold text-white mb-4">Gesture Mappings</h3>
                       <p className="text-white/60 text-sm mb-4">
-                        Customize which actions are triggered by each hand gesture.
+                        Each command mode has its own actions for every hand and face gesture.
+                        Type and Menu modes switch on while the keyboard or quick actions are open.
                       </p>
 
+                      {/* Mode being edited */}
+                      <div className="grid grid-cols-5 gap-2">
+                        {COMMAND_MODES.map((mode) => (
+                          <button
+                            key={mode.id}
+                            onClick={() => setEditingMode(mode.id)}
+                            title={mode.description}
+                            className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                              editingMode === mode.id
+                                ? 'bg-primary-500/30 text-white border border-primary-400/50'
+                                : 'bg-white/5 text-white/70 border border-white/10 hover:bg-white/10'
+                            }`}
+                          >
+                            <span className="block text-xl">{mode.icon}</span>
+                            {mode.label}
+                          </button>
+                        ))}
+                      </div>
+
+                      <h4 className="text-white font-medium">Hand Gestures</h4>
+                      <div className="space-y-2">
+                        <label className="text-white/80">Primary Hand</label>
+                        <select
+                          value={settings.primaryHand}
+                          onChange={(e) => updateSettings({ primaryHand: e.target.value as PrimaryHand })}
+                          className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                        >
+                          {PRIMARY_HAND_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value} className="bg-gray-800">
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-white/50">
+                          Give your other hand its own mappings. Two-hand gestures always use the primary mappings
+                        </p>
+                      </div>
+                      {settings.primaryHand !== 'either' && (
+                        <div className="grid grid-cols-2 gap-2">
+                          {(['primary', 'secondary'] as HandRole[]).map((role) => (
+                            <button
+                              key={role}
+                              onClick={() => setEditingRole(role)}
+                              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                                editedRole === role
+                                  ? 'bg-primary-500/30 text-white border border-primary-400/50'
+                                  : 'bg-white/5 text-white/70 border border-white/10 hover:bg-white/10'
+                              }`}
+                            >
+                              {role === 'primary' ? 'Primary Hand' : 'Other Hand'}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                       <div className="grid gap-4">
-                        {gestureMappings.map((mapping) => {
-                          const gestureInfo = GESTURE_OPTIONS.find(g => g.value === mapping.gesture);
+                        {editingGestures.map((mapping) => {
+                          const template = customGestures.find(t => t.id === mapping.gesture);
+                          const gestureInfo = template
+                            ? { icon: '⭐', label: template.name }
+                            : GESTURE_OPTIONS.find(g => g.value === mapping.gesture);
                           return (
                             <div
                               key={mapping.gesture}
@@ -210,7 +604,9 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                                 <h4 className="text-white font-medium">{gestureInfo?.label}</h4>
                                 <select
                                   value={mapping.action}
-                                  onChange={(e) => updateGestureMapping(mapping.gesture, e.target.value)}
+                                  onChange={(e) =>
+                                    updateGestureMapping(editingMode, mapping.gesture, e.target.value as CommandId, undefined, editedRole)
+                                  }
                                   className="mt-2 w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
                                 >
                                   {ACTION_OPTIONS.map((action) => (
@@ -224,7 +620,7 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                                 label=""
                                 description=""
                                 enabled={mapping.enabled}
-                                onChange={(v) => updateGestureMapping(mapping.gesture, mapping.action, v)}
+                                onChange={(v) => updateGestureMapping(editingMode, mapping.gesture, mapping.action, v, editedRole)}
                                 compact
                               />
                             </div>
@@ -232,6 +628,279 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                         })}
                       </div>
 
+                      <h4 className="text-white font-medium">Face Gestures</h4>
+                      <p className="text-xs text-white/50">
+                        Winks are used when Click Method is set to Wink. Blinks must be firmer than a natural blink.
+                        Other expressions fire once they are held;
+                        their hold time and cooldown apply in every mode
+                      </p>
+                      <div className="grid gap-4">
+                        {editingMappings.face.map((mapping) => {
+                          const faceInfo = FACE_GESTURE_OPTIONS.find(f => f.value === mapping.gesture);
+                          const trigger = isFaceTrigger(mapping.gesture) ? mapping.gesture : null;
+                          const timing = trigger ? settings.faceTriggerTimings[trigger] : null;
+                          return (
+                            <div
+                              key={mapping.gesture}
+                              className="flex items-center gap-4 p-4 rounded-lg bg-white/5 border border-white/10"
+                            >
+                              <div className="w-16 h-16 rounded-lg bg-white/10 flex items-center justify-center text-3xl">
+                                {faceInfo?.icon}
+                              </div>
+                              <div className="flex-1">
+                                <h4 className="text-white font-medium">{faceInfo?.label}</h4>
+                                <select
+                                  value={mapping.action}
+                                  onChange={(e) => updateFaceMapping(editingMode, mapping.gesture, e.target.value as CommandId)}
+                                  className="mt-2 w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                                >
+                                  {ACTION_OPTIONS.map((action) => (
+                                    <option key={action.value} value={action.value} className="bg-gray-800">
+                                      {action.label}
+                                    </option>
+                                  ))}
+                                </select>
+                                {trigger && timing && (
+                                  <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-white/60">
+                                    {(['holdTime', 'cooldown'] as const).map((field) => (
+                                      <label key={field} className="flex items-center gap-2">
+                                        {field === 'holdTime' ? 'Hold' : 'Cooldown'}
+                                        <input
+                                          type="number"
+                                          min="0"
+                                          max="5000"
+                                          step="50"
+                                          value={timing[field]}
+                                          onChange={(e) => updateSettings({
+                                            faceTriggerTimings: {
+                                              ...settings.faceTriggerTimings,
+                                              [trigger]: { ...timing, [field]: Math.max(0, Number(e.target.value)) },
+                                            },
+                                          })}
+                                          className="w-20 px-2 py-1 rounded bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                                        />
+                                        ms
+                                      </label>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                              <ToggleSetting
+                                label=""
+                                description=""
+                                enabled={mapping.enabled}
+                                onChange={(v) => updateFaceMapping(editingMode, mapping.gesture, mapping.action, v)}
+                                compact
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+
+                      <div className="pt-4 border-t border-white/10">
+                        <h4 className="text-white font-medium mb-3">Custom Gestures</h4>
+                        <p className="text-xs text-white/50 mb-3">
+                          Record your own hand shapes if the built-in ones are hard to make. They appear in the mappings above.
+                        </p>
+                        <div className="space-y-2 mb-3">
+                          {customGestures.map((template) => (
+                            <div
+                              key={template.id}
+                              className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/10"
+                            >
+                              <span className="text-white">⭐ {template.name}</span>
+                              <button
+                                onClick={() => removeCustomGesture(template.id)}
+                                className="text-sm text-red-400 hover:text-red-300"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                        <GlassButton variant="primary" onClick={onTrainGesture} className="w-full">
+                          Train New Gesture
+                        </GlassButton>
+                        {customGestures.length > 0 && (
+                          <div className="space-y-2 mt-4">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Match Tolerance</span>
+                              <span className="text-primary-400">{settings.customGestureThreshold.toFixed(2)}</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="0.1"
+                              max="0.6"
+                              step="0.05"
+                              value={settings.customGestureThreshold}
+                              onChange={(e) => updateSettings({ customGestureThreshold: parseFloat(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">Raise if your gestures are missed, lower if other hand shapes trigger them</p>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="pt-4 border-t border-white/10">
+                        <h4 className="text-white font-medium mb-3">Sequences & Chords</h4>
+                        <p className="text-xs text-white/50 mb-3">
+                          Combine gestures for more commands: a sequence is made one step after another,
+                          a chord is held all at once. They work in every mode except Rest
+                        </p>
+                        <div className="space-y-2 mb-3">
+                          {gestureBindings.map((binding) => (
+                            <div
+                              key={binding.id}
+                              className="flex items-center gap-4 p-3 rounded-lg bg-white/5 border border-white/10"
+                            >
+                              <div className="flex-1">
+                                <div className="flex flex-wrap items-center gap-1 text-white">
+                                  {binding.steps.map((step, i) => (
+                                    <span key={i} title={getInputGestureLabel(step, customGestures)}>
+                                      {i > 0 && (
+                                        <span className="text-white/40 mr-1">{binding.type === 'chord' ? '+' : '→'}</span>
+                                      )}
+                                      {getInputGestureIcon(step)}
+                                    </span>
+                                  ))}
+                                  <span className="ml-2 text-xs text-white/50">
+                                    {binding.type === 'chord' ? 'Chord' : 'Sequence'}
+                                  </span>
+                                </div>
+                                <select
+                                  value={binding.action}
+                                  onChange={(e) => updateGestureBinding(binding.id, { action: e.target.value as CommandId })}
+                                  className="mt-2 w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                                >
+                                  {ACTION_OPTIONS.map((action) => (
+                                    <option key={action.value} value={action.value} className="bg-gray-800">
+                                      {action.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                              <ToggleSetting
+                                label=""
+                                description=""
+                                enabled={binding.enabled}
+                                onChange={(v) => updateGestureBinding(binding.id, { enabled: v })}
+                                compact
+                              />
+                              <button
+                                onClick={() => removeGestureBinding(binding.id)}
+                                className="text-sm text-red-400 hover:text-red-300"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="p-3 rounded-lg bg-white/5 border border-white/10 space-y-3">
+                          <div className="grid grid-cols-2 gap-2">
+                            {(['sequence', 'chord'] as GestureBindingType[]).map((type) => (
+                              <button
+                                key={type}
+                                onClick={() => {
+                                  setNewBindingType(type);
+                                  if (type === 'chord') {
+                                    setNewBindingSteps((steps) => steps.filter(isHoldable));
+                                    if (!isHoldable(stepToAdd)) setStepToAdd('fist');
+                                  }
+                                }}
+                                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                                  newBindingType === type
+                                    ? 'bg-primary-500/30 text-white border border-primary-400/50'
+                                    : 'bg-white/5 text-white/70 border border-white/10 hover:bg-white/10'
+                                }`}
+                              >
+                                {type === 'sequence' ? 'Sequence (in order)' : 'Chord (held together)'}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-1 min-h-[2rem] text-white">
+                            {newBindingSteps.length === 0 ? (
+                              <span className="text-sm text-white/50">Add at least two gestures</span>
+                            ) : (
+                              newBindingSteps.map((step, i) => (
+                                <span key={i} className="px-2 py-1 rounded bg-white/10 text-sm">
+                                  {getInputGestureIcon(step)} {getInputGestureLabel(step, customGestures)}
+                                </span>
+                              ))
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            <select
+                              value={stepToAdd}
+                              onChange={(e) => setStepToAdd(e.target.value as InputGesture)}
+                              className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                            >
+                              {stepOptions.map((option) => (
+                                <option key={option.value} value={option.value} className="bg-gray-800">
+                                  {option.icon} {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            <GlassButton
+                              onClick={() => {
+                                // A chord can't hold the same gesture twice
+                                if (newBindingType === 'chord' && newBindingSteps.includes(stepToAdd)) return;
+                                setNewBindingSteps([...newBindingSteps, stepToAdd]);
+                              }}
+                            >
+                              Add
+                            </GlassButton>
+                            <GlassButton onClick={() => setNewBindingSteps([])}>
+                              Clear
+                            </GlassButton>
+                          </div>
+                          <select
+                            value={newBindingAction}
+                            onChange={(e) => setNewBindingAction(e.target.value as CommandId)}
+                            className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                          >
+                            {ACTION_OPTIONS.map((action) => (
+                              <option key={action.value} value={action.value} className="bg-gray-800">
+                                {action.label}
+                              </option>
+                            ))}
+                          </select>
+                          <GlassButton
+                            variant="primary"
+                            className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+                            disabled={newBindingSteps.length < 2}
+                            onClick={() => {
+                              addGestureBinding({
+                                type: newBindingType,
+                                steps: newBindingSteps,
+                                action: newBindingAction,
+                                enabled: true,
+                              });
+                              setNewBindingSteps([]);
+                            }}
+                          >
+                            Save {newBindingType === 'chord' ? 'Chord' : 'Sequence'}
+                          </GlassButton>
+                        </div>
+
+                        <div className="space-y-2 mt-4">
+                          <label className="text-white/80 flex items-center justify-between">
+                            <span>Sequence Timeout</span>
+                            <span className="text-primary-400">{settings.sequenceTimeout}ms</span>
+                          </label>
+                          <input
+                            type="range"
+                            min="500"
+                            max="4000"
+                            step="100"
+                            value={settings.sequenceTimeout}
+                            onChange={(e) => updateSettings({ sequenceTimeout: parseInt(e.target.value) })}
+                            className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                          <p className="text-xs text-white/50">Longest pause allowed between the steps of a sequence</p>
+                        </div>
+                      </div>
+
                       <div className="pt-4 border-t border-white/10">
                         <h4 className="text-white font-medium mb-3">Gesture Settings</h4>
                         <div className="space-y-2">
@@ -250,6 +919,45 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                           />
                           <p className="text-xs text-white/50">How long to hold a gesture before it triggers</p>
                         </div>
+                        <div className="space-y-2 mt-4">
+                          <label className="text-white/80 flex items-center justify-between">
+                            <span>Minimum Gesture Confidence</span>
+                            <span className="text-primary-400">{Math.round(settings.minGestureConfidence * 100)}%</span>
+                          </label>
+                          <input
+                            type="range"
+                            min="0"
+                            max="0.95"
+                            step="0.05"
+                            value={settings.minGestureConfidence}
+                            onChange={(e) => updateSettings({ minGestureConfidence: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                          <p className="text-xs text-white/50">Half-formed or flickering poses below this are ignored. Lower it if your gestures are missed</p>
+                        </div>
+                        <div className="mt-4">
+                          <ToggleSetting
+                            label="Motion Gestures"
+                            description="Swipe, circle, or push and pull your hand - no need to hold a pose"
+                            enabled={settings.motionGesturesEnabled}
+                            onChange={(v) => updateSettings({ motionGesturesEnabled: v })}
+                          />
+                        </div>
+                        <div className="space-y-2 mt-4">
+                          <label className="text-white/80">Mode Switch Gesture</label>
+                          <select
+                            value={settings.modeCycleGesture ?? ''}
+                            onChange={(e) => updateSettings({ modeCycleGesture: e.target.value as GestureType })}
+                            className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white focus:outline-none focus:border-primary-400"
+                          >
+                            {GESTURE_OPTIONS.map((gesture) => (
+                              <option key={gesture.value} value={gesture.value ?? ''} className="bg-gray-800">
+                                {gesture.icon} {gesture.label}
+                              </option>
+                            ))}
+                          </select>
+                          <p className="text-xs text-white/50">Cycles Browse, Type, Menu, Media and Rest in every mode, overriding that mode's mapping</p>
+                        </div>
                       </div>
                     </div>
                   )}
@@ -422,10 +1130,78 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                         onChange={(v) => updateSettings({ fatigueDetectionEnabled: v })}
                       />
 
+                      <ToggleSetting
+                        label="Drift Correction"
+                        description="Slowly move the head center to where you rest, as your posture changes"
+                        enabled={settings.driftCorrectionEnabled}
+                        onChange={(v) => updateSettings({ driftCorrectionEnabled: v })}
+                      />
+
+                      <ToggleSetting
+                        label="Re-center Prompts"
+                        description="Offer to re-center when your face moves outside the calibrated area"
+                        enabled={settings.recenterPromptsEnabled}
+                        onChange={(v) => updateSettings({ recenterPromptsEnabled: v })}
+                      />
+
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-white/80">Center Adjustments</span>
+                          {driftLog.length > 0 && (
+                            <GlassButton size="sm" onClick={() => driftCorrector.clearLog()}>
+                              Clear
+                            </GlassButton>
+                          )}
+                        </div>
+                        {driftLog.length === 0 ? (
+                          <p className="text-xs text-white/50">No adjustments this session</p>
+                        ) : (
+                          <div className="max-h-40 overflow-y-auto space-y-1">
+                            {driftLog.map((entry, i) => (
+                              <div
+                                key={i}
+                                className="flex items-center justify-between text-xs px-3 py-1.5 rounded-lg bg-white/5 border border-white/10"
+                              >
+                                <span className="text-white/50">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                                <span className="text-white/80">{ADJUSTMENT_LABELS[entry.kind]}</span>
+                                <span className="text-white/50">
+                                  {((entry.deltaYaw * 180) / Math.PI).toFixed(1)}° ·{' '}
+                                  {((entry.deltaPitch * 180) / Math.PI).toFixed(1)}°
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
                       <div className="pt-4 border-t border-white/10">
                         <h4 className="text-white font-medium mb-3">Detection Sensitivity</h4>
 
                         <div className="space-y-4">
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Eye Calibration</span>
+                              <span className="text-primary-400">
+                                {calibration.isEyeCalibrated
+                                  ? `L ${calibration.leftEyeThreshold.toFixed(2)} · R ${calibration.rightEyeThreshold.toFixed(2)}`
+                                  : 'Not calibrated'}
+                              </span>
+                            </label>
+                            <div className="flex gap-2">
+                              <GlassButton variant="primary" onClick={onCalibrateEyes} className="flex-1">
+                                {calibration.isEyeCalibrated ? 'Recalibrate Eyes' : 'Calibrate Eyes'}
+                              </GlassButton>
+                              {calibration.isEyeCalibrated && (
+                                <GlassButton onClick={() => saveCalibration({ ...calibration, isEyeCalibrated: false })}>
+                                  Reset
+                                </GlassButton>
+                              )}
+                            </div>
+                            <p className="text-xs text-white/50">
+                              Gives each eye its own threshold from how open and closed it reads. Helps with droopy lids or glasses
+                            </p>
+                          </div>
+
                           <div className="space-y-2">
                             <label className="text-white/80 flex items-center justify-between">
                               <span>Wink Detection Threshold</span>
@@ -440,7 +1216,60 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                               onChange={(e) => updateSettings({ winkThreshold: parseFloat(e.target.value) })}
                               className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
                             />
-                            <p className="text-xs text-white/50">Lower values = more sensitive wink detection</p>
+                            <p className="text-xs text-white/50">
+                              Eye aspect ratio above which an eye counts as open. Higher values = more sensitive wink detection. Calibrated eyes use their own thresholds instead. Values saved by older versions had the opposite meaning and were reset to the default
+                            </p>
+                          </div>
+
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Long Blink Duration</span>
+                              <span className="text-primary-400">{(settings.longBlinkTime / 1000).toFixed(1)}s</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="600"
+                              max="3000"
+                              step="100"
+                              value={settings.longBlinkTime}
+                              onChange={(e) => updateSettings({ longBlinkTime: parseInt(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">How long to close both eyes for a long blink</p>
+                          </div>
+
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Head Gesture Size</span>
+                              <span className="text-primary-400">{Math.round(settings.headGestureAmplitude * 100)}%</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="0.15"
+                              max="0.8"
+                              step="0.05"
+                              value={settings.headGestureAmplitude}
+                              onChange={(e) => updateSettings({ headGestureAmplitude: parseFloat(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">How far to nod, shake or flick, as a share of your calibrated head range</p>
+                          </div>
+
+                          <div className="space-y-2">
+                            <label className="text-white/80 flex items-center justify-between">
+                              <span>Head Gesture Speed</span>
+                              <span className="text-primary-400">{settings.headGestureSpeed.toFixed(1)}</span>
+                            </label>
+                            <input
+                              type="range"
+                              min="0.5"
+                              max="5"
+                              step="0.25"
+                              value={settings.headGestureSpeed}
+                              onChange={(e) => updateSettings({ headGestureSpeed: parseFloat(e.target.value) })}
+                              className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                            />
+                            <p className="text-xs text-white/50">Lower it if your nods are missed; raise it if pointing answers dialogs by accident</p>
                           </div>
 
                           <div className="space-y-2">
@@ -462,6 +1291,32 @@ export function AccessibilitySettings({ isOpen, onClose }: AccessibilitySettings
                         </div>
                       </div>
 
+                      <div className="pt-4 border-t border-white/10">
+                        <h4 className="text-white font-medium mb-3">OS Companion Bridge</h4>
+
+                        <div className="space-y-4">
+                          <ToggleSetting
+                            label="Control Other Apps"
+                            description="Send cursor, clicks and typing to the operating system through the companion daemon"
+                            enabled={settings.companionEnabled}
+                            onChange={(v) => updateSettings({ companionEnabled: v })}
+                          />
+
+                          {settings.companionEnabled && (
+                            <div className="space-y-2 pl-4 border-l-2 border-primary-500/30">
+                              <label className="text-white/80">Companion Address</label>
+                              <input
+                                type="text"
+                                value={settings.companionUrl}
+                                onChange={(e) => updateSettings({ companionUrl: e.target.value.trim() })}
+                                className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white font-mono text-sm focus:outline-none focus:border-primary-400"
+                              />
+                              <p className="text-xs text-white/50">Start it with <code>npm run companion</code>; only local addresses are recommended</p>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
                       <div className="pt-4 border-t border-white/10">
                         <GlassButton
                           variant="default"
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GlassCard, GlassButton } from './ui/GlassCard';
 import { audioFeedback } from '../utils/audioFeedback';
+import { headGestureRecognizer } from '../utils/headGestures';
 import type { FatigueState } from '../utils/fatigueDetection';
 
 type FatigueLevel = FatigueState['level'];
@@ -79,11 +80,26 @@ export function BreakReminder({
     }
   }, [isOnBreak, breakTimeRemaining, onTakeBreak, soundEnabled]);
 
-  const handleStartBreak = () => {
+  const handleStartBreak = useCallback(() => {
     setBreakTimeRemaining(getSuggestedBreakDuration());
     setIsOnBreak(true);
     if (soundEnabled) audioFeedback.pause();
-  };
+  }, [getSuggestedBreakDuration, soundEnabled]);
+
+  const handleEndBreak = useCallback(() => {
+    setIsOnBreak(false);
+    onTakeBreak();
+  }, [onTakeBreak]);
+
+  // Answer with the head: nod to start the break, shake to skip it or end it early
+  useEffect(() => {
+    if (!isVisible) return;
+    return headGestureRecognizer.subscribe((gesture) => {
+      if (!isOnBreak && gesture === 'nod') handleStartBreak();
+      else if (!isOnBreak && gesture === 'shake') onDismiss();
+      else if (isOnBreak && gesture === 'shake') handleEndBreak();
+    });
+  }, [isVisible, isOnBreak, handleStartBreak, handleEndBreak, onDismiss]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -189,6 +205,7 @@ export function BreakReminder({
                   <p className="text-center text-white/40 text-sm mt-4">
                     Suggested break: {formatTime(getSuggestedBreakDuration())}
                   </p>
+                  <p className="text-center text-white/40 text-xs mt-1">Nod to start, or shake your head to skip</p>
                 </>
               ) : (
                 <>
@@ -242,15 +259,10 @@ export function BreakReminder({
                       </div>
                     </div>
 
-                    <GlassButton
-                      variant="default"
-                      onClick={() => {
-                        setIsOnBreak(false);
-                        onTakeBreak();
-                      }}
-                    >
+                    <GlassButton variant="default" onClick={handleEndBreak}>
                       End Break Early
                     </GlassButton>
+                    <p className="text-white/40 text-xs mt-2">Or shake your head</p>
                   </div>
                 </>
               )}
@@ -2,40 +2,61 @@ import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GlassCard, GlassButton } from './ui/GlassCard';
 import { audioFeedback } from '../utils/audioFeedback';
+import { headGestureRecognizer, type HeadGestureType } from '../utils/headGestures';
 import type { CalibrationData } from '../utils/headTracking';
+import { GRID_POINTS, rangeCalibrator } from '../utils/rangeCalibration';
 
 interface CalibrationWizardProps {
   isOpen: boolean;
   onClose: () => void;
   onCalibrate: () => CalibrationData | null;
   onComplete: (calibration: CalibrationData) => void;
-  isFaceDetected: boolean;
+  source?: 'head' | 'hand'; // what drives the cursor
+  isDetected: boolean; // the face, or the hand when pointing by hand
   soundEnabled?: boolean;
 }
 
-type CalibrationStep = 'intro' | 'center' | 'testing' | 'complete';
+type CalibrationStep = 'intro' | 'center' | 'testing' | 'grid' | 'complete';
+type TestPhase = 'up' | 'down' | 'left' | 'right';
+
+const PHASE_FLICKS: Record<TestPhase, HeadGestureType> = {
+  up: 'flickUp',
+  down: 'flickDown',
+  left: 'flickLeft',
+  right: 'flickRight',
+};
 
 export function CalibrationWizard({
   isOpen,
   onClose,
   onCalibrate,
   onComplete,
-  isFaceDetected,
+  source = 'head',
+  isDetected,
   soundEnabled = true,
 }: CalibrationWizardProps) {
   const [step, setStep] = useState<CalibrationStep>('intro');
   const [countdown, setCountdown] = useState(3);
   const [calibrationData, setCalibrationData] = useState<CalibrationData | null>(null);
-  const [testPhase, setTestPhase] = useState<'up' | 'down' | 'left' | 'right' | null>(null);
+  const [testPhase, setTestPhase] = useState<TestPhase | null>(null);
   const [testsPassed, setTestsPassed] = useState(0);
+  // Head range measuring: how close the current direction or grid point is to done
+  const [rangeProgress, setRangeProgress] = useState(0);
+  const [gridIndex, setGridIndex] = useState(0);
+  const [hasGrid, setHasGrid] = useState(false);
+  const isMeasuring = source === 'head';
 
   useEffect(() => {
     if (!isOpen) {
+      rangeCalibrator.stop();
       setStep('intro');
       setCountdown(3);
       setCalibrationData(null);
       setTestPhase(null);
       setTestsPassed(0);
+      setRangeProgress(0);
+      setGridIndex(0);
+      setHasGrid(false);
     } else if (soundEnabled) {
       audioFeedback.calibrationStart();
     }
@@ -52,23 +73,66 @@ export function CalibrationWizard({
         setCalibrationData(data);
         setStep('testing');
         setTestPhase('up');
+        // Head pointing measures how far the user can turn each way from here
+        if (isMeasuring) {
+          rangeCalibrator.begin(data);
+          rangeCalibrator.measureExtent('up');
+        }
       }
     }
-  }, [step, countdown, onCalibrate]);
+  }, [step, countdown, onCalibrate, isMeasuring]);
 
   const handleTestComplete = useCallback(() => {
-    const phases: Array<'up' | 'down' | 'left' | 'right'> = ['up', 'down', 'left', 'right'];
+    const phases: TestPhase[] = ['up', 'down', 'left', 'right'];
     const currentIndex = phases.indexOf(testPhase!);
+    if (isMeasuring) rangeCalibrator.confirm();
+    setRangeProgress(0);
 
     if (currentIndex < phases.length - 1) {
       setTestPhase(phases[currentIndex + 1]);
       setTestsPassed(testsPassed + 1);
+      if (isMeasuring) rangeCalibrator.measureExtent(phases[currentIndex + 1]);
+      if (soundEnabled) audioFeedback.success();
+    } else {
+      if (isMeasuring && calibrationData) setCalibrationData(rangeCalibrator.createCalibration(calibrationData));
+      setStep('complete');
+      if (soundEnabled) audioFeedback.calibrationComplete();
+    }
+  }, [testPhase, testsPassed, soundEnabled, isMeasuring, calibrationData]);
+
+  // Optional 9-point grid: hold the head on each target in turn
+  const startGrid = useCallback(() => {
+    setStep('grid');
+    setGridIndex(0);
+    setRangeProgress(0);
+    rangeCalibrator.measurePoint(GRID_POINTS[0]);
+  }, []);
+
+  const handleGridPoint = useCallback(() => {
+    const next = gridIndex + 1;
+    setRangeProgress(0);
+    if (next < GRID_POINTS.length) {
+      setGridIndex(next);
+      rangeCalibrator.measurePoint(GRID_POINTS[next]);
       if (soundEnabled) audioFeedback.success();
     } else {
+      if (calibrationData) setCalibrationData(rangeCalibrator.createCalibration(calibrationData));
+      setHasGrid(true);
       setStep('complete');
       if (soundEnabled) audioFeedback.calibrationComplete();
     }
-  }, [testPhase, testsPassed, soundEnabled]);
+  }, [gridIndex, calibrationData, soundEnabled]);
+
+  // Each direction finishes once its extreme is measured and the head comes back
+  useEffect(() => {
+    if (!isOpen || !isMeasuring) return;
+    return rangeCalibrator.subscribe(({ progress, done }) => {
+      setRangeProgress(progress);
+      if (!done) return;
+      if (step === 'testing') handleTestComplete();
+      else if (step === 'grid') handleGridPoint();
+    });
+  }, [isOpen, isMeasuring, step, handleTestComplete, handleGridPoint]);
 
   const handleComplete = useCallback(() => {
     if (calibrationData) {
@@ -77,30 +141,78 @@ export function CalibrationWizard({
     onClose();
   }, [calibrationData, onComplete, onClose]);
 
+  // Answer with the head: nod to go on, shake to cancel, flick in the direction being tested
+  useEffect(() => {
+    if (!isOpen) return;
+    return headGestureRecognizer.subscribe((gesture) => {
+      if (step === 'intro' && gesture === 'nod' && isDetected) {
+        setStep('center');
+        setCountdown(3);
+      } else if (step === 'intro' && gesture === 'shake') {
+        onClose();
+      } else if (
+        // While the head's range is measured its movements aren't answers
+        step === 'testing' && testPhase && !isMeasuring &&
+        (gesture === 'nod' || gesture === PHASE_FLICKS[testPhase])
+      ) {
+        handleTestComplete();
+      } else if (step === 'complete' && gesture === 'nod') {
+        handleComplete();
+      }
+    });
+  }, [isOpen, step, testPhase, isDetected, isMeasuring, onClose, handleTestComplete, handleComplete]);
+
   const steps = {
     intro: {
       title: 'Welcome to Calibration',
-      description: 'This wizard will help you set up head tracking for optimal accuracy.',
+      description: source === 'hand'
+        ? 'This wizard will help you set up hand pointing for optimal accuracy.'
+        : 'This wizard will help you set up head tracking for optimal accuracy.',
       icon: '🎯',
     },
-    center: {
-      title: 'Look at the Center',
-      description: 'Keep your head in a comfortable neutral position and look at the center circle.',
-      icon: '👀',
-    },
+    center: source === 'hand'
+      ? {
+          title: 'Point at the Center',
+          description: 'Hold your index finger up in a comfortable resting position, pointing at the center circle.',
+          icon: '☝️',
+        }
+      : {
+          title: 'Look at the Center',
+          description: 'Keep your head in a comfortable neutral position and look at the center circle.',
+          icon: '👀',
+        },
     testing: {
-      title: 'Test Your Range',
-      description: `Move your head ${testPhase?.toUpperCase()} while looking at the screen.`,
+      title: isMeasuring ? 'Measure Your Range' : 'Test Your Range',
+      description: isMeasuring
+        ? `Turn your head as far ${testPhase?.toUpperCase()} as is comfortable, hold it there a moment, then come back to the center.`
+        : `Move your finger ${testPhase?.toUpperCase()} while looking at the screen.`,
       icon: testPhase === 'up' ? '⬆️' : testPhase === 'down' ? '⬇️' : testPhase === 'left' ? '⬅️' : '➡️',
     },
+    grid: {
+      title: 'Fine-Tune',
+      description: 'Point your head at the glowing target and hold still until it fills.',
+      icon: '🎯',
+    },
     complete: {
       title: 'Calibration Complete!',
-      description: 'Your head tracking is now calibrated. You can recalibrate anytime from settings.',
+      description: `Your ${source === 'hand' ? 'hand pointing' : 'head tracking'} is now calibrated. You can recalibrate anytime from settings.`,
       icon: '✅',
     },
   };
 
   const currentStep = steps[step];
+  const progressSteps: CalibrationStep[] = step === 'grid' || hasGrid
+    ? ['intro', 'center', 'testing', 'grid', 'complete']
+    : ['intro', 'center', 'testing', 'complete'];
+  // Measured comfortable turn each way, in degrees
+  const rangeSummary = calibrationData && isMeasuring
+    ? ([
+        ['Left', calibrationData.rangeYawLeft],
+        ['Right', calibrationData.rangeYawRight],
+        ['Up', calibrationData.rangePitchUp],
+        ['Down', calibrationData.rangePitchDown],
+      ] as const).map(([label, range]) => `${label} ${Math.round((range * 180) / Math.PI)}°`).join(' · ')
+    : null;
 
   return (
     <AnimatePresence>
@@ -111,149 +223,217 @@ export function CalibrationWizard({
           exit={{ opacity: 0 }}
           className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
         >
-          <motion.div
-            initial={{ scale: 0.9, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            exit={{ scale: 0.9, opacity: 0 }}
-            className="w-full max-w-lg"
-          >
-            <GlassCard className="p-8" hover={false}>
-              {/* Progress indicator */}
-              <div className="flex justify-center gap-2 mb-8">
-                {['intro', 'center', 'testing', 'complete'].map((s, i) => (
-                  <div
-                    key={s}
-                    className={`w-3 h-3 rounded-full transition-colors ${
-                      step === s
-                        ? 'bg-primary-500'
-                        : ['intro', 'center', 'testing', 'complete'].indexOf(step) > i
-                        ? 'bg-green-500'
-                        : 'bg-white/20'
-                    }`}
-                  />
-                ))}
+          {/* Grid targets across the whole screen */}
+          {step === 'grid' ? (
+            <div className="fixed inset-0">
+              <div className="absolute top-[25%] left-1/2 -translate-x-1/2 text-center space-y-2">
+                <h2 className="text-2xl font-bold text-white">{currentStep.title}</h2>
+                <p className="text-white/60">{currentStep.description}</p>
+                <p className="text-xs text-white/40">Target {gridIndex + 1} of {GRID_POINTS.length}</p>
+                <GlassButton variant="default" size="sm" onClick={onClose}>
+                  Cancel
+                </GlassButton>
               </div>
-
-              {/* Step content */}
-              <div className="text-center">
-                <motion.div
-                  key={step}
-                  initial={{ y: 20, opacity: 0 }}
-                  animate={{ y: 0, opacity: 1 }}
-                  className="space-y-6"
+              {GRID_POINTS.map((point, i) => (
+                <div
+                  key={i}
+                  className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full transition-all ${
+                    i === gridIndex
+                      ? 'w-12 h-12 bg-primary-500/30 border-4 border-primary-400'
+                      : i < gridIndex
+                      ? 'w-4 h-4 bg-green-500/60'
+                      : 'w-4 h-4 bg-white/20'
+                  }`}
+                  style={{ left: `${50 + point.x * 45}%`, top: `${50 + point.y * 45}%` }}
                 >
-                  <span className="text-6xl block">{currentStep.icon}</span>
-                  <h2 className="text-2xl font-bold text-white">{currentStep.title}</h2>
-                  <p className="text-white/60">{currentStep.description}</p>
-
-                  {/* Face detection status */}
-                  {step !== 'complete' && (
+                  {i === gridIndex && (
+                    <motion.div
+                      className="absolute inset-0 m-auto rounded-full bg-primary-400"
+                      animate={{ width: `${rangeProgress * 100}%`, height: `${rangeProgress * 100}%` }}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="w-full max-w-lg"
+            >
+              <GlassCard className="p-8" hover={false}>
+                {/* Progress indicator */}
+                <div className="flex justify-center gap-2 mb-8">
+                  {progressSteps.map((s, i) => (
                     <div
-                      className={`inline-flex items-center gap-2 px-4 py-2 rounded-full ${
-                        isFaceDetected
-                          ? 'bg-green-500/20 text-green-400'
-                          : 'bg-red-500/20 text-red-400'
+                      key={s}
+                      className={`w-3 h-3 rounded-full transition-colors ${
+                        step === s
+                          ? 'bg-primary-500'
+                          : progressSteps.indexOf(step) > i
+                          ? 'bg-green-500'
+                          : 'bg-white/20'
                       }`}
-                    >
-                      <span
-                        className={`w-2 h-2 rounded-full ${
-                          isFaceDetected ? 'bg-green-500 animate-pulse' : 'bg-red-500'
-                        }`}
-                      />
-                      {isFaceDetected ? 'Face Detected' : 'No Face Detected'}
-                    </div>
-                  )}
+                    />
+                  ))}
+                </div>
 
-                  {/* Step-specific content */}
-                  {step === 'center' && (
-                    <div className="relative w-32 h-32 mx-auto">
-                      {/* Countdown circle */}
-                      <svg className="w-full h-full -rotate-90">
-                        <circle
-                          cx="64"
-                          cy="64"
-                          r="56"
-                          fill="none"
-                          stroke="rgba(255, 255, 255, 0.1)"
-                          strokeWidth="8"
-                        />
-                        <motion.circle
-                          cx="64"
-                          cy="64"
-                          r="56"
-                          fill="none"
-                          stroke="#6366f1"
-                          strokeWidth="8"
-                          strokeLinecap="round"
-                          initial={{ pathLength: 1 }}
-                          animate={{ pathLength: countdown / 3 }}
-                          transition={{ duration: 1 }}
-                          style={{ pathLength: countdown / 3 }}
+                {/* Step content */}
+                <div className="text-center">
+                  <motion.div
+                    key={step}
+                    initial={{ y: 20, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    className="space-y-6"
+                  >
+                    <span className="text-6xl block">{currentStep.icon}</span>
+                    <h2 className="text-2xl font-bold text-white">{currentStep.title}</h2>
+                    <p className="text-white/60">{currentStep.description}</p>
+
+                    {/* Face (or hand) detection status */}
+                    {step !== 'complete' && (
+                      <div
+                        className={`inline-flex items-center gap-2 px-4 py-2 rounded-full ${
+                          isDetected
+                            ? 'bg-green-500/20 text-green-400'
+                            : 'bg-red-500/20 text-red-400'
+                        }`}
+                      >
+                        <span
+                          className={`w-2 h-2 rounded-full ${
+                            isDetected ? 'bg-green-500 animate-pulse' : 'bg-red-500'
+                          }`}
                         />
-                      </svg>
-                      <span className="absolute inset-0 flex items-center justify-center text-4xl font-bold text-white">
-                        {countdown}
-                      </span>
-                    </div>
-                  )}
+                        {source === 'hand'
+                          ? isDetected ? 'Hand Detected' : 'No Hand Detected'
+                          : isDetected ? 'Face Detected' : 'No Face Detected'}
+                      </div>
+                    )}
+
+                    {/* Step-specific content */}
+                    {step === 'center' && (
+                      <div className="relative w-32 h-32 mx-auto">
+                        {/* Countdown circle */}
+                        <svg className="w-full h-full -rotate-90">
+                          <circle
+                            cx="64"
+                            cy="64"
+                            r="56"
+                            fill="none"
+                            stroke="rgba(255, 255, 255, 0.1)"
+                            strokeWidth="8"
+                          />
+                          <motion.circle
+                            cx="64"
+                            cy="64"
+                            r="56"
+                            fill="none"
+                            stroke="#6366f1"
+                            strokeWidth="8"
+                            strokeLinecap="round"
+                            initial={{ pathLength: 1 }}
+                            animate={{ pathLength: countdown / 3 }}
+                            transition={{ duration: 1 }}
+                            style={{ pathLength: countdown / 3 }}
+                          />
+                        </svg>
+                        <span className="absolute inset-0 flex items-center justify-center text-4xl font-bold text-white">
+                          {countdown}
+                        </span>
+                      </div>
+                    )}
 
-                  {step === 'testing' && (
-                    <div className="space-y-4">
-                      <div className="flex justify-center gap-4">
-                        {['up', 'down', 'left', 'right'].map((dir, i) => (
-                          <div
-                            key={dir}
-                            className={`w-12 h-12 rounded-lg flex items-center justify-center ${
-                              testPhase === dir
-                                ? 'bg-primary-500/40 border-primary-400'
-                                : i < testsPassed
-                                ? 'bg-green-500/40 border-green-400'
-                                : 'bg-white/10 border-white/20'
-                            } border`}
-                          >
-                            {dir === 'up' && '⬆️'}
-                            {dir === 'down' && '⬇️'}
-                            {dir === 'left' && '⬅️'}
-                            {dir === 'right' && '➡️'}
+                    {step === 'testing' && (
+                      <div className="space-y-4">
+                        <div className="flex justify-center gap-4">
+                          {['up', 'down', 'left', 'right'].map((dir, i) => (
+                            <div
+                              key={dir}
+                              className={`w-12 h-12 rounded-lg flex items-center justify-center ${
+                                testPhase === dir
+                                  ? 'bg-primary-500/40 border-primary-400'
+                                  : i < testsPassed
+                                  ? 'bg-green-500/40 border-green-400'
+                                  : 'bg-white/10 border-white/20'
+                              } border`}
+                            >
+                              {dir === 'up' && '⬆️'}
+                              {dir === 'down' && '⬇️'}
+                              {dir === 'left' && '⬅️'}
+                              {dir === 'right' && '➡️'}
+                            </div>
+                          ))}
+                        </div>
+                        {isMeasuring && (
+                          <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                            <motion.div
+                              className={`h-full ${rangeProgress >= 1 ? 'bg-green-500' : 'bg-primary-500'}`}
+                              animate={{ width: `${rangeProgress * 100}%` }}
+                            />
                           </div>
-                        ))}
+                        )}
+                        <GlassButton variant="success" onClick={handleTestComplete}>
+                          Confirm {testPhase?.toUpperCase()} position
+                        </GlassButton>
+                        <p className="text-xs text-white/40">
+                          {isMeasuring
+                            ? rangeProgress >= 1
+                              ? 'Got it - come back to the center when you are ready'
+                              : 'The bar fills once the position has been held'
+                            : `Or nod, or flick your head ${testPhase}`}
+                        </p>
                       </div>
-                      <GlassButton variant="success" onClick={handleTestComplete}>
-                        Confirm {testPhase?.toUpperCase()} position
+                    )}
+
+                    {step === 'complete' && rangeSummary && (
+                      <p className="text-sm text-white/60">
+                        {rangeSummary}
+                        {hasGrid && (calibrationData?.rotationFit ? ' · grid fitted' : ' · grid could not be fitted')}
+                      </p>
+                    )}
+                  </motion.div>
+                </div>
+
+                {/* Actions */}
+                <div className="mt-8 flex justify-center gap-4">
+                  {step === 'intro' && (
+                    <>
+                      <GlassButton variant="default" onClick={onClose}>
+                        Cancel
+                      </GlassButton>
+                      <GlassButton
+                        variant="primary"
+                        onClick={() => {
+                          setStep('center');
+                          setCountdown(3);
+                        }}
+                        disabled={!isDetected}
+                      >
+                        Start Calibration
                       </GlassButton>
-                    </div>
+                    </>
                   )}
-                </motion.div>
-              </div>
 
-              {/* Actions */}
-              <div className="mt-8 flex justify-center gap-4">
-                {step === 'intro' && (
-                  <>
-                    <GlassButton variant="default" onClick={onClose}>
-                      Cancel
+                  {step === 'complete' && isMeasuring && !hasGrid && (
+                    <GlassButton variant="default" onClick={startGrid}>
+                      Fine-Tune with 9 Points
                     </GlassButton>
-                    <GlassButton
-                      variant="primary"
-                      onClick={() => {
-                        setStep('center');
-                        setCountdown(3);
-                      }}
-                      disabled={!isFaceDetected}
-                    >
-                      Start Calibration
+                  )}
+                  {step === 'complete' && (
+                    <GlassButton variant="success" onClick={handleComplete}>
+                      Done
                     </GlassButton>
-                  </>
-                )}
-
-                {step === 'complete' && (
-                  <GlassButton variant="success" onClick={handleComplete}>
-                    Done
-                  </GlassButton>
+                  )}
+                </div>
+                {(step === 'intro' || step === 'complete') && (
+                  <p className="text-center text-xs text-white/40 mt-4">
+                    {step === 'intro' ? 'Nod to start, or shake your head to cancel' : 'Nod to finish'}
+                  </p>
                 )}
-              </div>
-            </GlassCard>
-          </motion.div>
+              </GlassCard>
+            </motion.div>
+          )}
         </motion.div>
       )}
     </AnimatePresence>
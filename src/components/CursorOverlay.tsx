@@ -0,0 +1,65 @@
+import { motion } from 'framer-motion';
+import type { CursorState } from '../store/useAccessMateStore';
+
+interface CursorOverlayProps {
+  cursor: CursorState;
+  size: number;
+  visible: boolean;
+  reduceMotion?: boolean;
+}
+
+// Viewport-wide cursor layer; never intercepts pointer events so hit-testing
+// at the cursor always finds the page element underneath
+export function CursorOverlay({ cursor, size, visible, reduceMotion = false }: CursorOverlayProps) {
+  if (!visible) return null;
+
+  return (
+    <div className="fixed inset-0 pointer-events-none z-[100]" aria-hidden="true">
+      <motion.div
+        className="absolute -translate-x-1/2 -translate-y-1/2"
+        style={{ width: size, height: size }}
+        animate={{
+          left: `${cursor.x * 100}%`,
+          top: `${cursor.y * 100}%`,
+        }}
+        transition={reduceMotion ? { duration: 0 } : { type: 'spring', damping: 20, stiffness: 300 }}
+      >
+        <div
+          className={`w-full h-full rounded-full border-4 ${
+            cursor.isClicking
+              ? 'bg-green-500/50 border-green-400'
+              : cursor.isDragging
+              ? 'bg-yellow-500/50 border-yellow-400'
+              : cursor.isScrolling
+              ? 'bg-blue-500/30 border-blue-400'
+              : 'bg-primary-500/30 border-primary-400'
+          }`}
+        />
+        {/* Scroll mode arrows */}
+        {cursor.isScrolling && (
+          <div className="absolute inset-0 flex flex-col items-center justify-between py-0.5 text-[10px] leading-none text-white">
+            <span>▲</span>
+            <span>▼</span>
+          </div>
+        )}
+        {/* Hot spot */}
+        <div className="absolute left-1/2 top-1/2 w-1.5 h-1.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white" />
+        {/* Dwell progress ring */}
+        {cursor.isDwelling && cursor.dwellProgress > 0 && (
+          <svg className="absolute inset-0 w-full h-full -rotate-90">
+            <circle
+              cx="50%"
+              cy="50%"
+              r="45%"
+              fill="none"
+              stroke="#22c55e"
+              strokeWidth="4"
+              strokeDasharray={`${cursor.dwellProgress * 283} 283`}
+              strokeLinecap="round"
+            />
+          </svg>
+        )}
+      </motion.div>
+    </div>
+  );
+}
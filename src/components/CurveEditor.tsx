@@ -0,0 +1,160 @@
+import { useRef, useState, type PointerEvent } from 'react';
+import {
+  DEFAULT_CURVE_POINTS,
+  evaluateCurve,
+  type CurvePoint,
+  type CurveType,
+  type TransferCurve,
+} from '../utils/transferCurves';
+
+interface CurveEditorProps {
+  curve: TransferCurve;
+  onChange: (curve: TransferCurve) => void;
+}
+
+const CURVE_TYPES: { value: CurveType; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'quadratic', label: 'Quadratic' },
+  { value: 'sigmoid', label: 'S-Curve' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const SIZE = 200;
+const PADDING = 12;
+const PLOT = SIZE - PADDING * 2;
+const MIN_POINT_GAP = 0.02;
+
+function toSvg(point: CurvePoint): { x: number; y: number } {
+  return {
+    x: PADDING + point.x * PLOT,
+    y: SIZE - PADDING - point.y * PLOT,
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function CurveEditor({ curve, onChange }: CurveEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const path = Array.from({ length: 51 }, (_, i) => i / 50)
+    .map((x) => toSvg({ x, y: evaluateCurve(curve, x) }))
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`)
+    .join(' ');
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null || !svgRef.current) return;
+
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = (((e.clientX - rect.left) / rect.width) * SIZE - PADDING) / PLOT;
+    const y = (SIZE - PADDING - ((e.clientY - rect.top) / rect.height) * SIZE) / PLOT;
+
+    const { points } = curve;
+    const last = points.length - 1;
+    const updated = points.map((point, i) => {
+      if (i !== dragIndex) return point;
+      // Endpoints stay pinned to x = 0 and x = 1; inner points stay between their neighbours
+      const isEndpoint = i === 0 || i === last;
+      return {
+        x: isEndpoint
+          ? point.x
+          : clamp(x, points[i - 1].x + MIN_POINT_GAP, points[i + 1].x - MIN_POINT_GAP),
+        y: clamp(y, 0, 1),
+      };
+    });
+
+    onChange({ ...curve, points: updated });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {CURVE_TYPES.map((type) => (
+          <button
+            key={type.value}
+            onClick={() => onChange({
+              type: type.value,
+              points: curve.points.length >= 2 ? curve.points : DEFAULT_CURVE_POINTS,
+            })}
+            className={`
+              flex-1 px-3 py-1.5 rounded-lg text-sm transition-colors
+              ${curve.type === type.value
+                ? 'bg-primary-500/30 text-white border border-primary-400/50'
+                : 'bg-white/10 text-white/70 hover:bg-white/20 border border-transparent'
+              }
+            `}
+          >
+            {type.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-start gap-4">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-48 h-48 rounded-lg bg-white/5 border border-white/10 touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragIndex(null)}
+          onPointerLeave={() => setDragIndex(null)}
+        >
+          {/* Grid */}
+          {[0.25, 0.5, 0.75].map((t) => (
+            <g key={t} stroke="rgba(255, 255, 255, 0.08)">
+              <line x1={PADDING + t * PLOT} y1={PADDING} x2={PADDING + t * PLOT} y2={SIZE - PADDING} />
+              <line x1={PADDING} y1={PADDING + t * PLOT} x2={SIZE - PADDING} y2={PADDING + t * PLOT} />
+            </g>
+          ))}
+
+          {/* Linear reference */}
+          <line
+            x1={PADDING}
+            y1={SIZE - PADDING}
+            x2={SIZE - PADDING}
+            y2={PADDING}
+            stroke="rgba(255, 255, 255, 0.2)"
+            strokeDasharray="4 4"
+          />
+
+          <path d={path} fill="none" stroke="#818cf8" strokeWidth="3" strokeLinecap="round" />
+
+          {/* Control points */}
+          {curve.type === 'custom' && curve.points.map((point, i) => {
+            const p = toSvg(point);
+            return (
+              <circle
+                key={i}
+                cx={p.x}
+                cy={p.y}
+                r={dragIndex === i ? 8 : 6}
+                fill={dragIndex === i ? '#a5b4fc' : '#6366f1'}
+                stroke="white"
+                strokeWidth="2"
+                className="cursor-grab"
+                onPointerDown={(e) => {
+                  e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                  setDragIndex(i);
+                }}
+              />
+            );
+          })}
+        </svg>
+
+        <div className="flex-1 space-y-2 text-xs text-white/50">
+          <p>Horizontal: how far you move your head. Vertical: how far or fast the cursor moves.</p>
+          <p>Keep the curve low near the left for fine control, and steep on the right to reach the screen edges.</p>
+          {curve.type === 'custom' && (
+            <button
+              onClick={() => onChange({ ...curve, points: DEFAULT_CURVE_POINTS })}
+              className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white/70"
+            >
+              Reset Points
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
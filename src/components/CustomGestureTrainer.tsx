@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GlassCard, GlassButton } from './ui/GlassCard';
+
+interface CustomGestureTrainerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStartRecording: () => void;
+  onSave: (name: string) => void;
+  progress: number; // 0..1 of the samples needed
+  isHandDetected: boolean;
+}
+
+type TrainerStep = 'name' | 'recording';
+
+export function CustomGestureTrainer({
+  isOpen,
+  onClose,
+  onStartRecording,
+  onSave,
+  progress,
+  isHandDetected,
+}: CustomGestureTrainerProps) {
+  const [step, setStep] = useState<TrainerStep>('name');
+  const [name, setName] = useState('');
+  const isComplete = step === 'recording' && progress >= 1;
+
+  const handleClose = () => {
+    setStep('name');
+    setName('');
+    onClose();
+  };
+
+  const handleSave = () => {
+    onSave(name);
+    handleClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-lg"
+          >
+            <GlassCard className="p-8" hover={false}>
+              <div className="text-center space-y-6">
+                <span className="text-6xl block">{isComplete ? '✅' : '✋'}</span>
+                <h2 className="text-2xl font-bold text-white">
+                  {isComplete ? 'Gesture Recorded!' : step === 'name' ? 'Train a Custom Gesture' : 'Hold Your Gesture'}
+                </h2>
+                <p className="text-white/60">
+                  {isComplete
+                    ? 'Save it, then choose what it does in each mode under Gesture Mappings.'
+                    : step === 'name'
+                    ? 'Use any hand shape that is comfortable for you. Give it a name you will recognize.'
+                    : 'Hold the hand shape in front of the camera. Small movements help it recognize you later.'}
+                </p>
+
+                {/* Hand detection status */}
+                {!isComplete && (
+                  <div
+                    className={`inline-flex items-center gap-2 px-4 py-2 rounded-full ${
+                      isHandDetected
+                        ? 'bg-green-500/20 text-green-400'
+                        : 'bg-red-500/20 text-red-400'
+                    }`}
+                  >
+                    <span
+                      className={`w-2 h-2 rounded-full ${
+                        isHandDetected ? 'bg-green-500 animate-pulse' : 'bg-red-500'
+                      }`}
+                    />
+                    {isHandDetected ? 'Hand Detected' : 'No Hand Detected'}
+                  </div>
+                )}
+
+                {step === 'name' && (
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Two-finger pinch"
+                    className="w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/40 focus:outline-none focus:border-primary-400"
+                  />
+                )}
+
+                {step === 'recording' && (
+                  <div className="space-y-2">
+                    <div className="h-3 rounded-full bg-white/10 overflow-hidden">
+                      <motion.div
+                        className="h-full bg-primary-500"
+                        animate={{ width: `${progress * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-white/50">{Math.round(progress * 100)}% recorded</p>
+                  </div>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="mt-8 flex justify-center gap-4">
+                <GlassButton variant="default" onClick={handleClose}>
+                  Cancel
+                </GlassButton>
+                {step === 'name' && (
+                  <GlassButton
+                    variant="primary"
+                    onClick={() => {
+                      onStartRecording();
+                      setStep('recording');
+                    }}
+                    disabled={!name.trim()}
+                  >
+                    Start Recording
+                  </GlassButton>
+                )}
+                {isComplete && (
+                  <GlassButton variant="success" onClick={handleSave}>
+                    Save Gesture
+                  </GlassButton>
+                )}
+              </div>
+            </GlassCard>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
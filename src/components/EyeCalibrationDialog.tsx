@@ -0,0 +1,157 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { GlassCard, GlassButton } from './ui/GlassCard';
+import type { EyeCalibrationPhase, EyeThresholds } from '../utils/eyeCalibration';
+
+export interface EyeCalibrationStatus {
+  phase: EyeCalibrationPhase;
+  progress: number; // 0..1 through the phase
+  result: EyeThresholds | null; // once complete; null if the eyes couldn't be told apart
+}
+
+interface EyeCalibrationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStart: () => void;
+  onSave: (thresholds: EyeThresholds) => void;
+  status: EyeCalibrationStatus | null; // null before starting
+  isFaceDetected: boolean;
+}
+
+export function EyeCalibrationDialog({
+  isOpen,
+  onClose,
+  onStart,
+  onSave,
+  status,
+  isFaceDetected,
+}: EyeCalibrationDialogProps) {
+  const phase = status?.phase ?? null;
+  const result = status?.result ?? null;
+  const isFailed = phase === 'complete' && !result;
+
+  const content = phase === null
+    ? {
+        icon: '👁️',
+        title: 'Calibrate Your Eyes',
+        description: 'Measures how open and closed each of your eyes reads, so winks and blinks work for your eyes, with or without glasses.',
+      }
+    : phase === 'open'
+    ? {
+        icon: '👀',
+        title: 'Keep Your Eyes Open',
+        description: 'Look at the screen and relax. Blink normally if you need to.',
+      }
+    : phase === 'closed'
+    ? {
+        icon: '😌',
+        title: 'Close Both Eyes',
+        description: 'Close both eyes gently and keep them closed until you hear the tone.',
+      }
+    : isFailed
+    ? {
+        icon: '⚠️',
+        title: 'Eyes Not Told Apart',
+        description: 'Your open and closed eyes read too alike. Try better lighting, or close your eyes more fully.',
+      }
+    : {
+        icon: '✅',
+        title: 'Eyes Calibrated!',
+        description: 'Each eye now has its own threshold, and they keep adjusting as lighting and posture change.',
+      };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-lg"
+          >
+            <GlassCard className="p-8" hover={false}>
+              <div className="text-center space-y-6">
+                <span className="text-6xl block">{content.icon}</span>
+                <h2 className="text-2xl font-bold text-white">{content.title}</h2>
+                <p className="text-white/60">{content.description}</p>
+
+                {/* Face detection status */}
+                {phase !== 'complete' && (
+                  <div
+                    className={`inline-flex items-center gap-2 px-4 py-2 rounded-full ${
+                      isFaceDetected
+                        ? 'bg-green-500/20 text-green-400'
+                        : 'bg-red-500/20 text-red-400'
+                    }`}
+                  >
+                    <span
+                      className={`w-2 h-2 rounded-full ${
+                        isFaceDetected ? 'bg-green-500 animate-pulse' : 'bg-red-500'
+                      }`}
+                    />
+                    {isFaceDetected ? 'Face Detected' : 'No Face Detected'}
+                  </div>
+                )}
+
+                {(phase === 'open' || phase === 'closed') && status && (
+                  <div className="space-y-2">
+                    <div className="h-3 rounded-full bg-white/10 overflow-hidden">
+                      <motion.div
+                        className="h-full bg-primary-500"
+                        animate={{ width: `${status.progress * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-white/50">{Math.round(status.progress * 100)}% measured</p>
+                  </div>
+                )}
+
+                {result && (
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    {(['left', 'right'] as const).map((eye) => (
+                      <div key={eye} className="p-3 rounded-lg bg-white/5 border border-white/10">
+                        <p className="text-white/80 capitalize">{eye} eye</p>
+                        <p className="text-white/50">
+                          Open {result[eye === 'left' ? 'leftEyeOpenEAR' : 'rightEyeOpenEAR'].toFixed(2)} ·
+                          closes below {result[eye === 'left' ? 'leftEyeThreshold' : 'rightEyeThreshold'].toFixed(2)} ·
+                          shut below {result[eye === 'left' ? 'leftEyeClosedThreshold' : 'rightEyeClosedThreshold'].toFixed(2)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="mt-8 flex justify-center gap-4">
+                <GlassButton variant="default" onClick={onClose}>
+                  Cancel
+                </GlassButton>
+                {(phase === null || isFailed) && (
+                  <GlassButton variant="primary" onClick={onStart} disabled={!isFaceDetected}>
+                    {isFailed ? 'Try Again' : 'Start'}
+                  </GlassButton>
+                )}
+                {result && (
+                  <GlassButton
+                    variant="success"
+                    onClick={() => {
+                      onSave(result);
+                      onClose();
+                    }}
+                  >
+                    Save
+                  </GlassButton>
+                )}
+              </div>
+            </GlassCard>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
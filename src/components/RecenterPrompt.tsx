@@ -0,0 +1,71 @@
+import { useEffect } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { GlassCard, GlassButton } from './ui/GlassCard';
+import { headGestureRecognizer } from '../utils/headGestures';
+
+interface RecenterPromptProps {
+  isVisible: boolean;
+  onRecenter: () => void;
+  onRecalibrate: () => void;
+  onDismiss: () => void;
+  reduceMotion?: boolean;
+}
+
+// Offered when the face has moved out of the calibrated box, e.g. after the user
+// shifted in their chair. Doesn't cover the screen, so work can carry on
+export function RecenterPrompt({
+  isVisible,
+  onRecenter,
+  onRecalibrate,
+  onDismiss,
+  reduceMotion = false,
+}: RecenterPromptProps) {
+  // Answer with the head: nod to re-center here, shake to dismiss
+  useEffect(() => {
+    if (!isVisible) return;
+    return headGestureRecognizer.subscribe((gesture) => {
+      if (gesture === 'nod') onRecenter();
+      else if (gesture === 'shake') onDismiss();
+    });
+  }, [isVisible, onRecenter, onDismiss]);
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          className="fixed top-20 left-1/2 -translate-x-1/2 z-[90] w-full max-w-sm px-4"
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          transition={reduceMotion ? { duration: 0 } : undefined}
+          role="alertdialog"
+          aria-live="assertive"
+        >
+          <GlassCard className="p-4 border-yellow-400/50" hover={false}>
+            <div className="flex items-start gap-3">
+              <span className="text-3xl">📐</span>
+              <div>
+                <h3 className="font-semibold text-white">Position Changed</h3>
+                <p className="text-sm text-white/60">
+                  Your face has moved outside the calibrated area. Re-center to keep the whole screen in reach.
+                </p>
+              </div>
+            </div>
+            <div className="mt-4 flex gap-2">
+              <GlassButton variant="primary" size="sm" className="flex-1" onClick={onRecenter}>
+                Re-center Here
+              </GlassButton>
+              <GlassButton variant="default" size="sm" className="flex-1" onClick={onRecalibrate}>
+                Recalibrate
+              </GlassButton>
+              <GlassButton variant="default" size="sm" onClick={onDismiss}>
+                Dismiss
+              </GlassButton>
+            </div>
+            <p className="text-center text-white/40 text-xs mt-2">Nod to re-center, or shake your head to dismiss</p>
+          </GlassCard>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,55 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import { COMMANDS } from '../utils/commandRegistry';
+import type { CustomGestureTemplate } from '../utils/customGestures';
+import { getInputGestureIcon, getInputGestureLabel, type SequenceProgress } from '../utils/gestureSequences';
+
+interface SequenceIndicatorProps {
+  progress: SequenceProgress | null;
+  customGestures: CustomGestureTemplate[];
+  reduceMotion?: boolean;
+}
+
+// Steps of the sequence under way (or the chord being held), made steps lit up,
+// so the user can see how far they are and what comes next
+export function SequenceIndicator({ progress, customGestures, reduceMotion = false }: SequenceIndicatorProps) {
+  return (
+    <AnimatePresence>
+      {progress && (
+        <motion.div
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[90] pointer-events-none"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          transition={reduceMotion ? { duration: 0 } : undefined}
+          role="status"
+          aria-live="polite"
+        >
+          <div className="flex items-center gap-3 px-4 py-2 rounded-full bg-slate-900/90 border border-white/20 shadow-lg">
+            <div className="flex items-center gap-1.5">
+              {progress.binding.steps.map((step, i) => (
+                <span key={i} className="flex items-center gap-1.5">
+                  {i > 0 && (
+                    <span className="text-white/40 text-xs">
+                      {progress.binding.type === 'chord' ? '+' : '→'}
+                    </span>
+                  )}
+                  <span
+                    className={`text-xl w-9 h-9 flex items-center justify-center rounded-full border ${
+                      i < progress.matched
+                        ? 'bg-primary-500/40 border-primary-400'
+                        : 'bg-white/5 border-white/10 opacity-50'
+                    }`}
+                    title={getInputGestureLabel(step, customGestures)}
+                  >
+                    {getInputGestureIcon(step)}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <span className="text-sm text-white/80">{COMMANDS[progress.binding.action].label}</span>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
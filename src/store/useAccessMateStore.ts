@@ -1,34 +1,70 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { CommandModeId, FaceGestureType } from '../utils/commandModes';
+import { getNextCommandMode } from '../utils/commandModes';
+import type { CommandId } from '../utils/commandRegistry';
+import {
+  DEFAULT_CUSTOM_GESTURE_THRESHOLD,
+  type CustomGestureId,
+  type CustomGestureTemplate,
+} from '../utils/customGestures';
 import type { GestureType } from '../utils/gestureCommands';
+import { DEFAULT_COMPANION_URL } from '../utils/companionProtocol';
+import type { SmoothingFilterType } from '../utils/signalFilters';
+import { TWO_HAND_GESTURES, type TwoHandGestureType } from '../utils/twoHandGestures';
+import { MOTION_GESTURES, type MotionGestureType } from '../utils/motionGestures';
+import { DEFAULT_SEQUENCE_TIMEOUT, type GestureBinding, type SequenceProgress } from '../utils/gestureSequences';
+import {
+  DEFAULT_FACE_TRIGGER_TIMINGS,
+  type FaceTriggerTiming,
+  type FaceTriggerType,
+} from '../utils/faceTriggers';
+import { DEFAULT_TRANSFER_CURVE, type TransferCurve } from '../utils/transferCurves';
+import { DEFAULT_CALIBRATION, type CalibrationData } from '../utils/headTracking';
 
 // Control modes
-export type CursorMode = 'head' | 'nose' | 'disabled';
+export type CursorMode = 'head' | 'nose' | 'joystick' | 'hand' | 'disabled';
 export type ClickMode = 'wink' | 'dwell' | 'gesture' | 'disabled';
 
+// Hands - 'either' lets whichever hand is visible use the primary mappings
+export type HandSide = 'left' | 'right';
+export type PrimaryHand = HandSide | 'either';
+export type HandRole = 'primary' | 'secondary';
+
 // Gesture mapping (as array for UI)
 export interface GestureMappingItem {
   gesture: GestureType;
-  action: string;
+  action: CommandId;
+  enabled: boolean;
+}
+
+export interface FaceMappingItem {
+  gesture: FaceGestureType;
+  action: CommandId;
   enabled: boolean;
 }
 
-// Calibration data
-export interface CalibrationData {
-  centerX: number;
-  centerY: number;
-  rangeX: number;
-  rangeY: number;
-  isCalibrated: boolean;
+// Hand and face mappings of one command mode
+export interface ModeMappings {
+  gestures: GestureMappingItem[]; // primary hand, and two-hand gestures
+  secondaryGestures: GestureMappingItem[]; // the other hand, when a primary hand is set
+  face: FaceMappingItem[];
 }
 
+export type ModeMappingTable = Record<CommandModeId, ModeMappings>;
+
+// Calibration data lives with the head tracker that uses it
+export type { CalibrationData };
+
 // User profile
 export interface UserProfile {
   id: string;
   name: string;
   createdAt: number;
   settings: AccessMateSettings;
-  gestureMappings: GestureMappingItem[];
+  modeMappings: ModeMappingTable;
+  customGestures: CustomGestureTemplate[];
+  gestureBindings: GestureBinding[];
   calibration: CalibrationData;
 }
 
@@ -42,8 +78,12 @@ export interface DetectionState {
   headX: number; // -1 to 1 (left to right)
   headY: number; // -1 to 1 (up to down)
   headTilt: number;
+  faceTrigger: FaceTriggerType | null; // face trigger being held
   currentGesture: GestureType | null;
+  gestureConfidence: number; // 0..1, how clearly and steadily the current gesture is formed
   fingerCount: number;
+  handCount: number;
+  sequenceProgress: SequenceProgress | null; // partly made gesture sequence, or a chord being held
 }
 
 // Cursor state
@@ -52,6 +92,7 @@ export interface CursorState {
   y: number;
   isClicking: boolean;
   isDragging: boolean;
+  isScrolling: boolean; // scroll mode - head movement scrolls instead of moving the cursor
   isDwelling: boolean;
   dwellProgress: number;
 }
@@ -60,23 +101,44 @@ export interface CursorState {
 export interface AccessMateSettings {
   // Cursor settings
   cursorSpeed: number;
-  cursorSmoothing: number;
+  cursorSmoothing: number; // exponential filter weight of the previous position
+  smoothingFilter: SmoothingFilterType;
+  oneEuroMinCutoff: number; // Hz
+  oneEuroBeta: number;
+  kalmanProcessNoise: number;
+  kalmanMeasurementNoise: number;
+  tremorSuppression: boolean; // notch out tremor and hold through involuntary jerks
+  jerkSpeedThreshold: number; // normalized units per second
   cursorSize: number;
   cursorMode: CursorMode;
+  cursorCurve: TransferCurve; // head deflection to cursor displacement/velocity
+  cursorGainX: number;
+  cursorGainY: number;
 
   // Click settings
   clickMode: ClickMode;
   dwellTime: number;
+  dwellRadius: number; // fraction of the screen the cursor may wander while dwelling
   dwellClickEnabled: boolean;
 
   // Detection thresholds
-  winkThreshold: number;
-  mouthThreshold: number;
+  winkThreshold: number; // eye aspect ratio above which an eye counts as open
+  longBlinkTime: number; // ms both eyes must stay closed for a long blink
+  mouthThreshold: number; // 0..1, how wide the mouth must open - 0.5 is the standard threshold
+  faceTriggerTimings: Record<FaceTriggerType, FaceTriggerTiming>; // hold time and cooldown of each face trigger
+  headGestureAmplitude: number; // fraction of the calibrated head range a nod, shake or flick must cover
+  headGestureSpeed: number; // calibrated ranges per second a nod, shake or flick must reach
   deadZone: number;
 
   // Gesture settings
   gesturesEnabled: boolean;
   gestureHoldTime: number;
+  motionGesturesEnabled: boolean; // swipes, circles and push / pull
+  customGestureThreshold: number; // palm lengths; larger accepts looser matches to trained gestures
+  minGestureConfidence: number; // 0..1; less clearly formed poses don't start a hold
+  primaryHand: PrimaryHand;
+  sequenceTimeout: number; // ms allowed between the steps of a gesture sequence
+  modeCycleGesture: GestureType; // switches to the next command mode in every mode
 
   // Audio settings
   soundEnabled: boolean;
@@ -94,11 +156,17 @@ export interface AccessMateSettings {
 
   // Accessibility
   edgeScrolling: boolean;
+  companionEnabled: boolean; // send input to the OS through the companion daemon
+  companionUrl: string;
 
   // Fatigue & breaks
   breakRemindersEnabled: boolean;
   breakInterval: number; // minutes
   fatigueDetectionEnabled: boolean;
+
+  // Drift
+  driftCorrectionEnabled: boolean; // slowly follow the resting head position
+  recenterPromptsEnabled: boolean; // offer to re-centre when the face leaves the calibrated box
 }
 
 // App state
@@ -125,8 +193,16 @@ export interface AccessMateState {
   // Settings
   settings: AccessMateSettings;
 
-  // Gesture mappings
-  gestureMappings: GestureMappingItem[];
+  // Command modes and their gesture mappings
+  commandMode: CommandModeId;
+  baseMode: CommandModeId; // mode to return to when the keyboard or quick actions close
+  modeMappings: ModeMappingTable;
+
+  // Hand gestures the user trained
+  customGestures: CustomGestureTemplate[];
+
+  // Gesture sequences and chords bound to actions
+  gestureBindings: GestureBinding[];
 
   // Calibration
   calibration: CalibrationData;
@@ -165,8 +241,26 @@ export interface AccessMateState {
 
   saveCalibration: (calibration: CalibrationData) => void;
 
-  // Gesture mapping actions
-  updateGestureMapping: (gesture: GestureType, action: string, enabled?: boolean) => void;
+  // Command mode actions
+  setCommandMode: (mode: CommandModeId) => void;
+  cycleCommandMode: () => void;
+  updateGestureMapping: (
+    mode: CommandModeId,
+    gesture: GestureType,
+    action: CommandId,
+    enabled?: boolean,
+    role?: HandRole
+  ) => void;
+  updateFaceMapping: (mode: CommandModeId, gesture: FaceGestureType, action: CommandId, enabled?: boolean) => void;
+
+  // Custom gesture actions
+  addCustomGesture: (template: CustomGestureTemplate) => void;
+  removeCustomGesture: (id: CustomGestureId) => void;
+
+  // Sequence and chord actions
+  addGestureBinding: (binding: Omit<GestureBinding, 'id'>) => void;
+  updateGestureBinding: (id: string, updates: Partial<Omit<GestureBinding, 'id'>>) => void;
+  removeGestureBinding: (id: string) => void;
 
   // Profile actions
   createProfile: (name: string) => void;
@@ -189,39 +283,181 @@ const defaultGestureMappings: GestureMappingItem[] = [
   { gesture: 'thumbsDown', action: 'back', enabled: true },
   { gesture: 'peaceSign', action: 'doubleClick', enabled: true },
   { gesture: 'pointUp', action: 'scroll', enabled: true },
+  { gesture: 'pointLeft', action: 'back', enabled: true },
+  { gesture: 'pointRight', action: 'forward', enabled: true },
   { gesture: 'rockSign', action: 'rightClick', enabled: true },
   { gesture: 'callMe', action: 'keyboard', enabled: true },
   { gesture: 'ok', action: 'quickActions', enabled: true },
+  // Motion gestures are opt-in - ordinary hand movement can look like them
+  { gesture: 'swipeLeft', action: 'back', enabled: false },
+  { gesture: 'swipeRight', action: 'forward', enabled: false },
+  { gesture: 'swipeUp', action: 'scrollUp', enabled: false },
+  { gesture: 'swipeDown', action: 'scrollDown', enabled: false },
+  { gesture: 'circleClockwise', action: 'quickActions', enabled: false },
+  { gesture: 'circleCounterClockwise', action: 'keyboard', enabled: false },
+  { gesture: 'push', action: 'click', enabled: false },
+  { gesture: 'pull', action: 'rightClick', enabled: false },
+  { gesture: 'bothPalms', action: 'emergencyPause', enabled: true },
+  { gesture: 'bothFists', action: 'cancelAll', enabled: true },
+  { gesture: 'pinchSpread', action: 'zoomIn', enabled: true },
+  { gesture: 'pinchSqueeze', action: 'zoomOut', enabled: true },
+];
+
+// The other hand starts with nothing mapped; two-hand gestures only live in the primary list
+const defaultSecondaryMappings: GestureMappingItem[] = defaultGestureMappings
+  .filter((mapping) => !TWO_HAND_GESTURES.includes(mapping.gesture as TwoHandGestureType))
+  .map((mapping) => ({ ...mapping, enabled: false }));
+
+const defaultFaceMappings: FaceMappingItem[] = [
+  { gesture: 'leftWink', action: 'click', enabled: true },
+  { gesture: 'rightWink', action: 'rightClick', enabled: true },
+  { gesture: 'mouthOpen', action: 'drag', enabled: true },
+  { gesture: 'doubleBlink', action: 'click', enabled: false },
+  { gesture: 'longBlink', action: 'rightClick', enabled: false },
+  { gesture: 'smile', action: 'click', enabled: false },
+  { gesture: 'browRaiseBoth', action: 'scroll', enabled: false },
+  { gesture: 'browRaiseLeft', action: 'rightClick', enabled: false },
+  { gesture: 'browRaiseRight', action: 'doubleClick', enabled: false },
+  { gesture: 'headRollLeft', action: 'back', enabled: false },
+  { gesture: 'headRollRight', action: 'forward', enabled: false },
+  { gesture: 'leanIn', action: 'quickActions', enabled: false },
 ];
 
-const defaultCalibration: CalibrationData = {
-  centerX: 0.5,
-  centerY: 0.5,
-  rangeX: 0.3,
-  rangeY: 0.2,
-  isCalibrated: false,
+// Every mode lists every gesture; gestures a mode doesn't use keep the browse action but start
+// disabled, and motion gestures start disabled with the mode's action ready to turn on
+function modeMappings(
+  gestures: Partial<Record<NonNullable<GestureType>, CommandId>>,
+  face: Partial<Record<FaceGestureType, CommandId>>
+): ModeMappings {
+  return {
+    gestures: defaultGestureMappings.map((mapping) => {
+      const action = mapping.gesture ? gestures[mapping.gesture] : undefined;
+      const isMotion = MOTION_GESTURES.includes(mapping.gesture as MotionGestureType);
+      return { gesture: mapping.gesture, action: action ?? mapping.action, enabled: action !== undefined && !isMotion };
+    }),
+    secondaryGestures: defaultSecondaryMappings,
+    face: defaultFaceMappings.map((mapping) => {
+      const action = face[mapping.gesture];
+      return { gesture: mapping.gesture, action: action ?? mapping.action, enabled: action !== undefined };
+    }),
+  };
+}
+
+const defaultModeMappings: ModeMappingTable = {
+  browse: { gestures: defaultGestureMappings, secondaryGestures: defaultSecondaryMappings, face: defaultFaceMappings },
+  type: modeMappings(
+    { fist: 'escape', openPalm: 'pause', thumbsUp: 'enter', thumbsDown: 'backspace', peaceSign: 'space', callMe: 'keyboard', swipeLeft: 'backspace', swipeRight: 'space', push: 'click', bothPalms: 'emergencyPause', bothFists: 'cancelAll' },
+    { leftWink: 'click', rightWink: 'backspace' }
+  ),
+  menu: modeMappings(
+    { fist: 'escape', openPalm: 'pause', thumbsUp: 'click', thumbsDown: 'escape', ok: 'quickActions', push: 'click', pull: 'escape', bothPalms: 'emergencyPause', bothFists: 'cancelAll' },
+    { leftWink: 'click', rightWink: 'escape' }
+  ),
+  media: modeMappings(
+    { fist: 'playPause', openPalm: 'pause', thumbsUp: 'volumeUp', thumbsDown: 'volumeDown', pointLeft: 'previousTrack', pointRight: 'nextTrack', callMe: 'keyboard', swipeLeft: 'previousTrack', swipeRight: 'nextTrack', swipeUp: 'volumeUp', swipeDown: 'volumeDown', push: 'playPause', bothPalms: 'emergencyPause', bothFists: 'cancelAll' },
+    { leftWink: 'click', rightWink: 'playPause' }
+  ),
+  rest: modeMappings({}, {}),
 };
 
+// Append default mappings for gestures added since the user's mappings were saved
+function withNewGestures<T extends { gesture: unknown }>(saved: T[], defaults: T[]): T[] {
+  return [...saved, ...defaults.filter((mapping) => !saved.some((m) => m.gesture === mapping.gesture))];
+}
+
+// Mappings saved before command modes existed become the browse mode's gestures
+function migrateModeMappings(saved: { modeMappings?: ModeMappingTable; gestureMappings?: GestureMappingItem[] }): ModeMappingTable {
+  const table: ModeMappingTable = saved.modeMappings
+    ? { ...defaultModeMappings, ...saved.modeMappings }
+    : {
+        ...defaultModeMappings,
+        browse: { ...defaultModeMappings.browse, gestures: saved.gestureMappings ?? defaultGestureMappings },
+      };
+  const modes = Object.keys(defaultModeMappings) as (keyof ModeMappingTable)[];
+  return Object.fromEntries(
+    modes.map((mode) => [
+      mode,
+      {
+        gestures: withNewGestures(table[mode].gestures, defaultModeMappings[mode].gestures),
+        secondaryGestures: withNewGestures(table[mode].secondaryGestures ?? [], defaultModeMappings[mode].secondaryGestures),
+        face: withNewGestures(table[mode].face, defaultModeMappings[mode].face),
+      },
+    ])
+  ) as ModeMappingTable;
+}
+
+// Calibrations saved before the ranges were measured each way use their symmetric range both ways
+function migrateCalibration(saved: Partial<CalibrationData> | undefined): CalibrationData {
+  const calibration = { ...DEFAULT_CALIBRATION, ...saved };
+  if (saved && saved.rangeYawLeft === undefined) {
+    Object.assign(calibration, {
+      rangeXLeft: calibration.rangeX,
+      rangeXRight: calibration.rangeX,
+      rangeYUp: calibration.rangeY,
+      rangeYDown: calibration.rangeY,
+      rangeYawLeft: calibration.rangeYaw,
+      rangeYawRight: calibration.rangeYaw,
+      rangePitchUp: calibration.rangePitch,
+      rangePitchDown: calibration.rangePitch,
+    });
+  }
+  // Eye calibrations saved without the closed readings: the open threshold is the
+  // closest to shut we know each eye reaches
+  if (saved && saved.leftEyeClosedThreshold === undefined) {
+    calibration.leftEyeClosedThreshold = calibration.leftEyeThreshold;
+    calibration.rightEyeClosedThreshold = calibration.rightEyeThreshold;
+  }
+  return calibration;
+}
+
+// Version 1 saved the wink threshold as the eye aspect ratio below which an eye counts as
+// closed. It now means the ratio above which the eye counts as open, so old values start
+// over from the default
+function migrateWinkThreshold<T extends { settings?: AccessMateSettings }>(saved: T): T {
+  return saved.settings ? { ...saved, settings: { ...saved.settings, winkThreshold: defaultSettings.winkThreshold } } : saved;
+}
+
 const defaultSettings: AccessMateSettings = {
   // Cursor
   cursorSpeed: 1.5,
   cursorSmoothing: 0.7,
+  smoothingFilter: 'oneEuro',
+  oneEuroMinCutoff: 1.0,
+  oneEuroBeta: 1.5,
+  kalmanProcessNoise: 20,
+  kalmanMeasurementNoise: 0.0005,
+  tremorSuppression: false,
+  jerkSpeedThreshold: 6,
   cursorSize: 40,
   cursorMode: 'head',
+  cursorCurve: DEFAULT_TRANSFER_CURVE,
+  cursorGainX: 1,
+  cursorGainY: 1,
 
   // Click
   clickMode: 'wink',
   dwellTime: 1000,
+  dwellRadius: 0.03,
   dwellClickEnabled: true,
 
   // Detection
-  winkThreshold: 0.25,
+  winkThreshold: 0.22,
+  longBlinkTime: 1000,
   mouthThreshold: 0.5,
+  faceTriggerTimings: DEFAULT_FACE_TRIGGER_TIMINGS,
+  headGestureAmplitude: 0.35,
+  headGestureSpeed: 2,
   deadZone: 0.05,
 
   // Gestures
   gesturesEnabled: true,
   gestureHoldTime: 500,
+  motionGesturesEnabled: true,
+  customGestureThreshold: DEFAULT_CUSTOM_GESTURE_THRESHOLD,
+  minGestureConfidence: 0.6,
+  primaryHand: 'either',
+  sequenceTimeout: DEFAULT_SEQUENCE_TIMEOUT,
+  modeCycleGesture: 'threeFingers',
 
   // Audio
   soundEnabled: true,
@@ -239,11 +475,17 @@ const defaultSettings: AccessMateSettings = {
 
   // Accessibility
   edgeScrolling: true,
+  companionEnabled: false,
+  companionUrl: DEFAULT_COMPANION_URL,
 
   // Fatigue
   breakRemindersEnabled: true,
   breakInterval: 30,
   fatigueDetectionEnabled: true,
+
+  // Drift
+  driftCorrectionEnabled: true,
+  recenterPromptsEnabled: true,
 };
 
 const defaultDetection: DetectionState = {
@@ -255,8 +497,12 @@ const defaultDetection: DetectionState = {
   headX: 0,
   headY: 0,
   headTilt: 0,
+  faceTrigger: null,
   currentGesture: null,
+  gestureConfidence: 0,
   fingerCount: 0,
+  handCount: 0,
+  sequenceProgress: null,
 };
 
 const defaultCursor: CursorState = {
@@ -264,6 +510,7 @@ const defaultCursor: CursorState = {
   y: 0.5,
   isClicking: false,
   isDragging: false,
+  isScrolling: false,
   isDwelling: false,
   dwellProgress: 0,
 };
@@ -286,8 +533,12 @@ export const useAccessMateStore = create<AccessMateState>()(
       detection: defaultDetection,
       cursor: defaultCursor,
       settings: defaultSettings,
-      gestureMappings: defaultGestureMappings,
-      calibration: defaultCalibration,
+      commandMode: 'browse',
+      baseMode: 'browse',
+      modeMappings: defaultModeMappings,
+      customGestures: [],
+      gestureBindings: [],
+      calibration: DEFAULT_CALIBRATION,
 
       profiles: [],
       activeProfileId: 'default',
@@ -305,8 +556,17 @@ export const useAccessMateStore = create<AccessMateState>()(
       setPaused: (paused) => set({ isPaused: paused }),
       togglePause: () => set((state) => ({ isPaused: !state.isPaused })),
       setCalibrating: (calibrating) => set({ isCalibrating: calibrating }),
-      setShowKeyboard: (show) => set({ showKeyboard: show }),
-      setShowQuickActions: (show) => set({ showQuickActions: show }),
+      // Opening the keyboard or quick actions switches to their mode; closing returns to the previous one
+      setShowKeyboard: (show) =>
+        set((state) => ({
+          showKeyboard: show,
+          commandMode: show ? 'type' : state.showQuickActions ? 'menu' : state.baseMode,
+        })),
+      setShowQuickActions: (show) =>
+        set((state) => ({
+          showQuickActions: show,
+          commandMode: show ? 'menu' : state.showKeyboard ? 'type' : state.baseMode,
+        })),
       setShowSettings: (show) => set({ showSettings: show }),
 
       setCameraActive: (active) => set({ isCameraActive: active }),
@@ -332,15 +592,101 @@ export const useAccessMateStore = create<AccessMateState>()(
 
       saveCalibration: (calibration) => set({ calibration }),
 
-      updateGestureMapping: (gesture, action, enabled) =>
+      // Type and menu modes live as long as their overlay is open
+      setCommandMode: (mode) => {
+        if (mode === 'type') {
+          set({ showKeyboard: true, showQuickActions: false, commandMode: 'type' });
+        } else if (mode === 'menu') {
+          set({ showKeyboard: false, showQuickActions: true, commandMode: 'menu' });
+        } else {
+          set({ showKeyboard: false, showQuickActions: false, commandMode: mode, baseMode: mode });
+        }
+      },
+
+      cycleCommandMode: () => get().setCommandMode(getNextCommandMode(get().commandMode)),
+
+      updateGestureMapping: (mode, gesture, action, enabled, role = 'primary') =>
+        set((state) => {
+          const list = role === 'primary' ? 'gestures' : 'secondaryGestures';
+          return {
+            modeMappings: {
+              ...state.modeMappings,
+              [mode]: {
+                ...state.modeMappings[mode],
+                [list]: state.modeMappings[mode][list].map((mapping) =>
+                  mapping.gesture === gesture
+                    ? { ...mapping, action, enabled: enabled ?? mapping.enabled }
+                    : mapping
+                ),
+              },
+            },
+          };
+        }),
+
+      updateFaceMapping: (mode, gesture, action, enabled) =>
+        set((state) => ({
+          modeMappings: {
+            ...state.modeMappings,
+            [mode]: {
+              ...state.modeMappings[mode],
+              face: state.modeMappings[mode].face.map((mapping) =>
+                mapping.gesture === gesture
+                  ? { ...mapping, action, enabled: enabled ?? mapping.enabled }
+                  : mapping
+              ),
+            },
+          },
+        })),
+
+      // A new gesture starts as a click in browse mode and unused in the others
+      addCustomGesture: (template) =>
+        set((state) => ({
+          customGestures: [...state.customGestures, template],
+          modeMappings: Object.fromEntries(
+            Object.entries(state.modeMappings).map(([mode, mappings]) => [
+              mode,
+              {
+                ...mappings,
+                gestures: [...mappings.gestures, { gesture: template.id, action: 'click', enabled: mode === 'browse' }],
+                secondaryGestures: [...mappings.secondaryGestures, { gesture: template.id, action: 'click', enabled: false }],
+              },
+            ])
+          ) as ModeMappingTable,
+        })),
+
+      removeCustomGesture: (id) =>
         set((state) => ({
-          gestureMappings: state.gestureMappings.map((mapping) =>
-            mapping.gesture === gesture
-              ? { ...mapping, action, enabled: enabled ?? mapping.enabled }
-              : mapping
+          customGestures: state.customGestures.filter((template) => template.id !== id),
+          gestureBindings: state.gestureBindings.filter((binding) => !binding.steps.includes(id)),
+          modeMappings: Object.fromEntries(
+            Object.entries(state.modeMappings).map(([mode, mappings]) => [
+              mode,
+              {
+                ...mappings,
+                gestures: mappings.gestures.filter((mapping) => mapping.gesture !== id),
+                secondaryGestures: mappings.secondaryGestures.filter((mapping) => mapping.gesture !== id),
+              },
+            ])
+          ) as ModeMappingTable,
+        })),
+
+      addGestureBinding: (binding) =>
+        set((state) => ({
+          gestureBindings: [...state.gestureBindings, { ...binding, id: `binding-${Date.now()}` }],
+        })),
+
+      updateGestureBinding: (id, updates) =>
+        set((state) => ({
+          gestureBindings: state.gestureBindings.map((binding) =>
+            binding.id === id ? { ...binding, ...updates } : binding
           ),
         })),
 
+      removeGestureBinding: (id) =>
+        set((state) => ({
+          gestureBindings: state.gestureBindings.filter((binding) => binding.id !== id),
+        })),
+
       createProfile: (name) => {
         const state = get();
         const newProfile: UserProfile = {
@@ -348,7 +694,9 @@ export const useAccessMateStore = create<AccessMateState>()(
           name,
           createdAt: Date.now(),
           settings: { ...state.settings },
-          gestureMappings: [...state.gestureMappings],
+          modeMappings: structuredClone(state.modeMappings),
+          customGestures: [...state.customGestures],
+          gestureBindings: structuredClone(state.gestureBindings),
           calibration: { ...state.calibration },
         };
         set((state) => ({
@@ -370,16 +718,20 @@ export const useAccessMateStore = create<AccessMateState>()(
         if (profile) {
           set({
             activeProfileId: id,
-            settings: profile.settings,
-            gestureMappings: profile.gestureMappings,
-            calibration: profile.calibration,
+            settings: { ...defaultSettings, ...profile.settings },
+            modeMappings: migrateModeMappings(profile),
+            customGestures: profile.customGestures ?? [],
+            gestureBindings: profile.gestureBindings ?? [],
+            calibration: migrateCalibration(profile.calibration),
           });
         } else {
           set({
             activeProfileId: 'default',
             settings: defaultSettings,
-            gestureMappings: defaultGestureMappings,
-            calibration: defaultCalibration,
+            modeMappings: defaultModeMappings,
+            customGestures: [],
+            gestureBindings: [],
+            calibration: DEFAULT_CALIBRATION,
           });
         }
       },
@@ -427,9 +779,47 @@ export const useAccessMateStore = create<AccessMateState>()(
     }),
     {
       name: 'accessmate-storage',
+      version: 2,
+      migrate: (persisted, version) => {
+        let saved = persisted as AccessMateState & { gestureMappings?: GestureMappingItem[] };
+        // v0 stored a single gesture mapping list, now the browse mode's mappings
+        if (version < 1) {
+          const { gestureMappings, ...rest } = saved;
+          saved = {
+            ...rest,
+            modeMappings: migrateModeMappings({ gestureMappings }),
+            profiles: rest.profiles?.map((profile) => ({ ...profile, modeMappings: migrateModeMappings(profile) })),
+          };
+        }
+        // v1 stored the wink threshold with the opposite meaning
+        if (version < 2) {
+          saved = { ...migrateWinkThreshold(saved), profiles: saved.profiles?.map(migrateWinkThreshold) };
+        }
+        return saved;
+      },
+      // Fill in settings added since the user's settings were saved
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<AccessMateState> | undefined;
+        return {
+          ...current,
+          ...saved,
+          settings: {
+            ...current.settings,
+            ...saved?.settings,
+            faceTriggerTimings: { ...current.settings.faceTriggerTimings, ...saved?.settings?.faceTriggerTimings },
+          },
+          calibration: migrateCalibration(saved?.calibration),
+          stats: { ...current.stats, ...saved?.stats },
+          modeMappings: saved ? migrateModeMappings(saved) : current.modeMappings,
+          commandMode: saved?.baseMode ?? current.commandMode,
+        };
+      },
       partialize: (state) => ({
         settings: state.settings,
-        gestureMappings: state.gestureMappings,
+        modeMappings: state.modeMappings,
+        customGestures: state.customGestures,
+        gestureBindings: state.gestureBindings,
+        baseMode: state.baseMode,
         calibration: state.calibration,
         profiles: state.profiles,
         activeProfileId: state.activeProfileId,
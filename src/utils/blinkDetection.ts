@@ -61,27 +61,29 @@ export interface BlinkDetectionResult {
 }
 
 export class BlinkDetector {
-  private readonly EAR_THRESHOLD = 0.21;
-  private readonly CONSEC_FRAMES = 2;
+  private earThreshold = 0.21;
+  private readonly MIN_BLINK_DURATION = 60; // ms the eyes must stay closed to count
 
-  private frameCounter = 0;
+  private closedSince: number | null = null;
   private blinkCount = 0;
 
-  detect(landmarks: Landmark[]): BlinkDetectionResult {
+  detect(landmarks: Landmark[], timestamp: number): BlinkDetectionResult {
     const leftEAR = calculateEAR(landmarks, LEFT_EYE_EAR_POINTS);
     const rightEAR = calculateEAR(landmarks, RIGHT_EYE_EAR_POINTS);
     const avgEAR = (leftEAR + rightEAR) / 2;
 
-    const isBlinking = avgEAR < this.EAR_THRESHOLD;
+    const isBlinking = avgEAR < this.earThreshold;
 
     // Count blinks (transition from blinking to not blinking)
     if (isBlinking) {
-      this.frameCounter++;
+      if (this.closedSince === null) {
+        this.closedSince = timestamp;
+      }
     } else {
-      if (this.frameCounter >= this.CONSEC_FRAMES) {
+      if (this.closedSince !== null && timestamp - this.closedSince >= this.MIN_BLINK_DURATION) {
         this.blinkCount++;
       }
-      this.frameCounter = 0;
+      this.closedSince = null;
     }
 
     return {
@@ -101,7 +103,7 @@ export class BlinkDetector {
   }
 
   setThreshold(threshold: number): void {
-    (this as any).EAR_THRESHOLD = threshold;
+    this.earThreshold = threshold;
   }
 }
 
@@ -0,0 +1,51 @@
+// Command modes for AccessMate
+// Each mode has its own gesture and face-gesture mapping tables, so the same
+// gesture can mean different things while typing, in a menu, or watching media
+
+import type { FaceTriggerType } from './faceTriggers';
+
+export type CommandModeId = 'browse' | 'type' | 'menu' | 'media' | 'rest';
+
+export type FaceGestureType = 'leftWink' | 'rightWink' | 'doubleBlink' | 'longBlink' | FaceTriggerType;
+
+export interface CommandModeInfo {
+  id: CommandModeId;
+  label: string;
+  icon: string;
+  description: string;
+  freezesCursor?: boolean; // the cursor stays put and dwell clicking is off
+  ignoresBindings?: boolean; // gesture sequences and chords don't run
+}
+
+export const COMMAND_MODES: CommandModeInfo[] = [
+  { id: 'browse', label: 'Browse', icon: '🧭', description: 'Point, click and scroll' },
+  { id: 'type', label: 'Type', icon: '⌨️', description: 'Active while the virtual keyboard is open' },
+  { id: 'menu', label: 'Menu', icon: '⚡', description: 'Active while the quick actions wheel is open' },
+  { id: 'media', label: 'Media', icon: '🎵', description: 'Play, pause, skip and change volume' },
+  { id: 'rest', label: 'Rest', icon: '😌', description: 'Ignore everything except the mode switch gesture', freezesCursor: true, ignoresBindings: true },
+];
+
+export const FACE_GESTURE_OPTIONS: { value: FaceGestureType; label: string; icon: string }[] = [
+  { value: 'leftWink', label: 'Left Wink', icon: '😉' },
+  { value: 'rightWink', label: 'Right Wink', icon: '😜' },
+  { value: 'doubleBlink', label: 'Double Blink', icon: '😌' },
+  { value: 'longBlink', label: 'Long Blink', icon: '😑' },
+  { value: 'mouthOpen', label: 'Mouth Open', icon: '😮' },
+  { value: 'smile', label: 'Smile', icon: '😁' },
+  { value: 'browRaiseBoth', label: 'Raise Both Eyebrows', icon: '🤨' },
+  { value: 'browRaiseLeft', label: 'Raise Left Eyebrow', icon: '🤨' },
+  { value: 'browRaiseRight', label: 'Raise Right Eyebrow', icon: '🤨' },
+  { value: 'headRollLeft', label: 'Tilt Head Left', icon: '↖️' },
+  { value: 'headRollRight', label: 'Tilt Head Right', icon: '↗️' },
+  { value: 'leanIn', label: 'Lean In', icon: '🔍' },
+];
+
+export function getCommandMode(id: CommandModeId): CommandModeInfo {
+  return COMMAND_MODES.find((mode) => mode.id === id) ?? COMMAND_MODES[0];
+}
+
+// Mode reached by the mode switch gesture from the given mode
+export function getNextCommandMode(id: CommandModeId): CommandModeId {
+  const index = COMMAND_MODES.findIndex((mode) => mode.id === id);
+  return COMMAND_MODES[(index + 1) % COMMAND_MODES.length].id;
+}
@@ -0,0 +1,139 @@
+// Central registry of AccessMate commands
+// Every action a gesture (or other trigger) can be mapped to is defined here with its handler
+
+import type { MediaAction } from './domActuation';
+
+export type CommandId =
+  | 'click'
+  | 'doubleClick'
+  | 'rightClick'
+  | 'scroll'
+  | 'scrollUp'
+  | 'scrollDown'
+  | 'drag'
+  | 'keyboard'
+  | 'quickActions'
+  | 'pause'
+  | 'escape'
+  | 'enter'
+  | 'back'
+  | 'forward'
+  | 'backspace'
+  | 'space'
+  | 'playPause'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'nextTrack'
+  | 'previousTrack'
+  | 'emergencyPause'
+  | 'cancelAll'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'recenter';
+
+// Capabilities the app provides to command handlers
+export interface CommandContext {
+  click: (button: 'left' | 'right' | 'double') => void;
+  toggleScrollMode: () => void;
+  scrollPage: (notches: number) => void; // wheel notches at the cursor, positive scrolls down
+  toggleDrag: () => void;
+  toggleKeyboard: () => void;
+  toggleQuickActions: () => void;
+  togglePause: () => void;
+  setPaused: (paused: boolean) => void;
+  releaseAll: () => void; // drop any drag and leave scroll mode
+  zoom: (direction: 'in' | 'out') => void;
+  closeOverlays: () => void;
+  pressKey: (key: string) => void; // virtual keyboard key name, e.g. 'Enter', 'Esc'
+  navigate: (direction: 'back' | 'forward') => void;
+  controlMedia: (action: MediaAction) => void;
+  recenter: () => void; // make the current head pose the centre
+}
+
+const PAGE_SCROLL_NOTCHES = 5;
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string;
+  allowWhilePaused?: boolean; // e.g. resuming must work while paused
+  run: (context: CommandContext) => void;
+}
+
+export const COMMANDS: Record<CommandId, CommandDefinition> = {
+  click: { id: 'click', label: 'Click', run: (ctx) => ctx.click('left') },
+  doubleClick: { id: 'doubleClick', label: 'Double Click', run: (ctx) => ctx.click('double') },
+  rightClick: { id: 'rightClick', label: 'Right Click', run: (ctx) => ctx.click('right') },
+  scroll: { id: 'scroll', label: 'Scroll Mode', run: (ctx) => ctx.toggleScrollMode() },
+  scrollUp: { id: 'scrollUp', label: 'Scroll Up', run: (ctx) => ctx.scrollPage(-PAGE_SCROLL_NOTCHES) },
+  scrollDown: { id: 'scrollDown', label: 'Scroll Down', run: (ctx) => ctx.scrollPage(PAGE_SCROLL_NOTCHES) },
+  drag: { id: 'drag', label: 'Drag Mode', run: (ctx) => ctx.toggleDrag() },
+  keyboard: { id: 'keyboard', label: 'Open Keyboard', run: (ctx) => ctx.toggleKeyboard() },
+  quickActions: { id: 'quickActions', label: 'Quick Actions', run: (ctx) => ctx.toggleQuickActions() },
+  pause: { id: 'pause', label: 'Pause Control', allowWhilePaused: true, run: (ctx) => ctx.togglePause() },
+  escape: {
+    id: 'escape',
+    label: 'Escape',
+    run: (ctx) => {
+      ctx.closeOverlays();
+      ctx.pressKey('Esc');
+    },
+  },
+  enter: { id: 'enter', label: 'Enter', run: (ctx) => ctx.pressKey('Enter') },
+  back: { id: 'back', label: 'Go Back', run: (ctx) => ctx.navigate('back') },
+  forward: { id: 'forward', label: 'Go Forward', run: (ctx) => ctx.navigate('forward') },
+  backspace: { id: 'backspace', label: 'Backspace', run: (ctx) => ctx.pressKey('Backspace') },
+  space: { id: 'space', label: 'Space', run: (ctx) => ctx.pressKey(' ') },
+  playPause: { id: 'playPause', label: 'Play / Pause', run: (ctx) => ctx.controlMedia('playPause') },
+  volumeUp: { id: 'volumeUp', label: 'Volume Up', run: (ctx) => ctx.controlMedia('volumeUp') },
+  volumeDown: { id: 'volumeDown', label: 'Volume Down', run: (ctx) => ctx.controlMedia('volumeDown') },
+  nextTrack: { id: 'nextTrack', label: 'Next Track', run: (ctx) => ctx.controlMedia('nextTrack') },
+  previousTrack: { id: 'previousTrack', label: 'Previous Track', run: (ctx) => ctx.controlMedia('previousTrack') },
+  emergencyPause: {
+    id: 'emergencyPause',
+    label: 'Emergency Pause',
+    allowWhilePaused: true,
+    run: (ctx) => {
+      ctx.releaseAll();
+      ctx.closeOverlays();
+      ctx.setPaused(true);
+    },
+  },
+  cancelAll: {
+    id: 'cancelAll',
+    label: 'Cancel All',
+    run: (ctx) => {
+      ctx.releaseAll();
+      ctx.closeOverlays();
+      ctx.pressKey('Esc');
+    },
+  },
+  zoomIn: { id: 'zoomIn', label: 'Zoom In', run: (ctx) => ctx.zoom('in') },
+  zoomOut: { id: 'zoomOut', label: 'Zoom Out', run: (ctx) => ctx.zoom('out') },
+  recenter: { id: 'recenter', label: 'Re-center', run: (ctx) => ctx.recenter() },
+};
+
+export const ACTION_OPTIONS: { value: CommandId; label: string }[] = Object.values(COMMANDS).map(
+  ({ id, label }) => ({ value: id, label })
+);
+
+export function isCommandId(value: string): value is CommandId {
+  return value in COMMANDS;
+}
+
+// Look up the command the user mapped to a hand or face gesture, ignoring disabled mappings
+export function resolveGestureCommand<G extends string | null>(
+  gesture: G,
+  mappings: { gesture: G; action: string; enabled: boolean }[]
+): CommandId | null {
+  if (!gesture) return null;
+  const mapping = mappings.find((m) => m.gesture === gesture && m.enabled);
+  return mapping && isCommandId(mapping.action) ? mapping.action : null;
+}
+
+// Run a command; returns false when it is not allowed right now
+export function runCommand(id: CommandId, context: CommandContext, isPaused: boolean = false): boolean {
+  const command = COMMANDS[id];
+  if (isPaused && !command.allowWhilePaused) return false;
+  command.run(context);
+  return true;
+}
@@ -0,0 +1,203 @@
+// WebSocket client for the AccessMate companion daemon
+// Keeps a connection open while enabled, reconnecting with exponential backoff
+
+import {
+  DEFAULT_COMPANION_URL,
+  encodeCommand,
+  parseEvent,
+  type CompanionButton,
+  type CompanionCommand,
+  type CompanionEvent,
+} from './companionProtocol';
+import { toKeyboardKey } from './domActuation';
+
+export type CompanionStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected' | 'incompatible';
+
+// Virtual keyboard shortcuts, sent with the platform's command modifier
+const SHORTCUT_KEYS: Record<string, string> = {
+  Copy: 'c',
+  Paste: 'v',
+  SelectAll: 'a',
+};
+
+type StatusListener = (status: CompanionStatus, detail?: string) => void;
+
+export class CompanionClient {
+  private url = DEFAULT_COMPANION_URL;
+  private socket: WebSocket | null = null;
+  private status: CompanionStatus = 'disabled';
+  private listeners = new Set<StatusListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  private seq = 0;
+  private daemonInfo: Extract<CompanionEvent, { type: 'welcome' }> | null = null;
+  private readonly BASE_DELAY = 500; // ms
+  private readonly MAX_DELAY = 30000; // ms
+
+  getStatus(): CompanionStatus {
+    return this.status;
+  }
+
+  getDaemonInfo(): Extract<CompanionEvent, { type: 'welcome' }> | null {
+    return this.daemonInfo;
+  }
+
+  isConnected(): boolean {
+    return this.status === 'connected';
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: CompanionStatus, detail?: string): void {
+    if (status === this.status && detail === undefined) return;
+    this.status = status;
+    this.listeners.forEach((listener) => listener(status, detail));
+  }
+
+  // Start (or restart) connecting to the daemon
+  enable(url: string = DEFAULT_COMPANION_URL): void {
+    if (this.status !== 'disabled' && url === this.url) return;
+    this.disable();
+    this.url = url;
+    this.attempt = 0;
+    this.connect();
+  }
+
+  disable(): void {
+    this.clearReconnect();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.daemonInfo = null;
+    this.setStatus('disabled');
+  }
+
+  private connect(): void {
+    this.setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      this.setStatus('disconnected', error instanceof Error ? error.message : String(error));
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.send({ type: 'hello', client: 'accessmate-web' });
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        this.handleEvent(parseEvent(String(event.data)));
+      } catch (error) {
+        console.warn('Ignoring companion message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return; // closed on purpose
+      this.socket = null;
+      this.daemonInfo = null;
+      if (this.status !== 'incompatible') {
+        this.setStatus('disconnected');
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private handleEvent(event: CompanionEvent): void {
+    switch (event.type) {
+      case 'welcome':
+        this.attempt = 0;
+        this.daemonInfo = event;
+        this.setStatus('connected', `${event.daemon} (${event.platform})`);
+        break;
+      case 'error':
+        if (event.code === 'version_mismatch') {
+          // Retrying cannot help until one side is upgraded
+          this.setStatus('incompatible', event.message);
+          this.socket?.close();
+        } else {
+          console.warn(`Companion error (${event.code}):`, event.message);
+        }
+        break;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.clearReconnect();
+    const delay = Math.min(this.MAX_DELAY, this.BASE_DELAY * Math.pow(2, this.attempt));
+    // Jitter so several tabs do not reconnect in lockstep
+    const jittered = delay * (0.75 + Math.random() * 0.5);
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, jittered);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // Returns false when the command could not be sent
+  send(command: CompanionCommand): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+    if (command.type !== 'hello' && !this.isConnected()) return false;
+    this.socket.send(encodeCommand(command, ++this.seq));
+    return true;
+  }
+
+  movePointer(x: number, y: number): boolean {
+    return this.send({ type: 'pointer.move', x, y });
+  }
+
+  buttonDown(button: CompanionButton = 'left'): boolean {
+    return this.send({ type: 'pointer.button', button, state: 'down' });
+  }
+
+  buttonUp(button: CompanionButton = 'left'): boolean {
+    return this.send({ type: 'pointer.button', button, state: 'up' });
+  }
+
+  click(button: CompanionButton = 'left'): boolean {
+    return this.buttonDown(button) && this.buttonUp(button);
+  }
+
+  scroll(dy: number, dx: number = 0): boolean {
+    return this.send({ type: 'pointer.scroll', dx, dy });
+  }
+
+  keyChord(...keys: string[]): boolean {
+    return this.send({ type: 'key.chord', keys });
+  }
+
+  typeText(text: string): boolean {
+    return this.send({ type: 'text.input', text });
+  }
+
+  // Send a virtual keyboard key as a key chord, or as typed text for characters and phrases
+  pressVirtualKey(key: string): boolean {
+    if (key in SHORTCUT_KEYS) {
+      const modifier = this.daemonInfo?.platform === 'darwin' ? 'Meta' : 'Control';
+      return this.keyChord(modifier, SHORTCUT_KEYS[key]);
+    }
+    const named = toKeyboardKey(key);
+    return named ? this.keyChord(named) : this.typeText(key);
+  }
+}
+
+export const companionClient = new CompanionClient();
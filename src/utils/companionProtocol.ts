@@ -0,0 +1,46 @@
+// Companion bridge protocol for AccessMate
+// JSON messages over a localhost WebSocket between the app and a native companion
+// daemon that injects OS-level input. Bump COMPANION_PROTOCOL_VERSION on any
+// incompatible change; the daemon rejects clients speaking a different version.
+
+export const COMPANION_PROTOCOL_VERSION = 1;
+export const DEFAULT_COMPANION_URL = 'ws://127.0.0.1:8765';
+
+export type CompanionButton = 'left' | 'right' | 'middle';
+
+// App -> daemon
+export type CompanionCommand =
+  | { type: 'hello'; client: string }
+  | { type: 'pointer.move'; x: number; y: number } // normalized 0..1 across the primary display
+  | { type: 'pointer.button'; button: CompanionButton; state: 'down' | 'up' }
+  | { type: 'pointer.scroll'; dx: number; dy: number } // wheel notches, positive = right/down
+  | { type: 'key.chord'; keys: string[] } // KeyboardEvent.key names, modifiers first, e.g. ['Control', 'c']
+  | { type: 'text.input'; text: string };
+
+// Daemon -> app
+export type CompanionEvent =
+  | { type: 'welcome'; daemon: string; platform: string; capabilities: CompanionCommand['type'][] }
+  | { type: 'error'; code: 'version_mismatch' | 'bad_message' | 'unsupported' | 'injection_failed'; message: string };
+
+export type CompanionEnvelope<T> = T & { v: number; seq: number };
+
+export function encodeCommand(command: CompanionCommand, seq: number): string {
+  const envelope: CompanionEnvelope<CompanionCommand> = { ...command, v: COMPANION_PROTOCOL_VERSION, seq };
+  return JSON.stringify(envelope);
+}
+
+export function parseEvent(data: string): CompanionEnvelope<CompanionEvent> {
+  const message = JSON.parse(data) as Partial<CompanionEnvelope<CompanionEvent>>;
+  if (typeof message !== 'object' || message === null || typeof message.type !== 'string') {
+    throw new Error('Companion message has no type');
+  }
+  // Errors keep their shape across versions, so a daemon on another version can still
+  // tell us it rejected us (version_mismatch)
+  if (message.v !== COMPANION_PROTOCOL_VERSION && message.type !== 'error') {
+    throw new Error(`Unsupported companion protocol version ${message.v}`);
+  }
+  if (message.type !== 'welcome' && message.type !== 'error') {
+    throw new Error(`Unknown companion event ${message.type}`);
+  }
+  return message as CompanionEnvelope<CompanionEvent>;
+}
@@ -0,0 +1,157 @@
+// User-trained custom hand gestures for AccessMate
+// Users record samples of their own hand shapes; live hands are matched against
+// them with a k-nearest-neighbour classifier that rejects anything too far from all of them
+
+import type { HandLandmark } from './fingerCounting';
+
+export type CustomGestureId = `custom:${string}`;
+
+export interface CustomGestureTemplate {
+  id: CustomGestureId;
+  name: string;
+  samples: number[][]; // normalized hand shapes, see normalizeHand
+  createdAt: number;
+}
+
+export interface CustomGestureMatch {
+  id: CustomGestureId;
+  distance: number;
+  confidence: number;
+}
+
+const WRIST = 0;
+const MIDDLE_MCP = 9;
+
+export const DEFAULT_CUSTOM_GESTURE_THRESHOLD = 0.25;
+
+export function isCustomGesture(gesture: string | null): gesture is CustomGestureId {
+  return gesture !== null && gesture.startsWith('custom:');
+}
+
+export function createCustomGestureId(): CustomGestureId {
+  return `custom:${Date.now().toString(36)}`;
+}
+
+// Hand shape independent of position, size and in-plane rotation: landmarks relative
+// to the wrist, in palm lengths, turned so the palm points up. Left hands are mirrored
+// so a template recorded with one hand matches the other
+export function normalizeHand(landmarks: HandLandmark[], isRightHand: boolean): number[] {
+  const wrist = landmarks[WRIST];
+  const vx = landmarks[MIDDLE_MCP].x - wrist.x;
+  const vy = landmarks[MIDDLE_MCP].y - wrist.y;
+  const palmSize = Math.hypot(vx, vy);
+  if (palmSize === 0) return [];
+
+  // Rotate the wrist -> middle knuckle direction onto straight up (y points down)
+  const angle = -Math.atan2(vx, -vy);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const features: number[] = [];
+  for (const landmark of landmarks) {
+    const dx = (landmark.x - wrist.x) / palmSize;
+    const dy = (landmark.y - wrist.y) / palmSize;
+    const x = dx * cos - dy * sin;
+    features.push(isRightHand ? x : -x, dx * sin + dy * cos);
+  }
+  return features;
+}
+
+// Mean landmark distance between two hand shapes, in palm lengths
+export function shapeDistance(a: number[], b: number[]): number {
+  const points = Math.min(a.length, b.length) / 2;
+  if (points === 0) return Infinity;
+  let total = 0;
+  for (let i = 0; i < points; i++) {
+    total += Math.hypot(a[i * 2] - b[i * 2], a[i * 2 + 1] - b[i * 2 + 1]);
+  }
+  return total / points;
+}
+
+export class CustomGestureClassifier {
+  private templates: CustomGestureTemplate[] = [];
+  private threshold = DEFAULT_CUSTOM_GESTURE_THRESHOLD;
+  private readonly K = 3;
+
+  setTemplates(templates: CustomGestureTemplate[]): void {
+    this.templates = templates;
+  }
+
+  // Largest distance, in palm lengths, still accepted as a match
+  setThreshold(threshold: number): void {
+    this.threshold = Math.max(0.05, threshold);
+  }
+
+  classify(landmarks: HandLandmark[], isRightHand: boolean): CustomGestureMatch | null {
+    if (this.templates.length === 0) return null;
+    const features = normalizeHand(landmarks, isRightHand);
+    if (features.length === 0) return null;
+
+    const neighbours = this.templates
+      .flatMap((template) => template.samples.map((sample) => ({ id: template.id, distance: shapeDistance(features, sample) })))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.K);
+    if (neighbours.length === 0) return null;
+
+    // Majority vote among the nearest samples; ties go to the nearest
+    const votes = new Map<CustomGestureId, number>();
+    for (const neighbour of neighbours) {
+      votes.set(neighbour.id, (votes.get(neighbour.id) ?? 0) + 1);
+    }
+    let winner = neighbours[0].id;
+    for (const [id, count] of votes) {
+      if (count > (votes.get(winner) ?? 0)) winner = id;
+    }
+
+    const nearest = neighbours.find((neighbour) => neighbour.id === winner)!;
+    if (nearest.distance > this.threshold) return null;
+
+    const agreement = (votes.get(winner) ?? 0) / neighbours.length;
+    return {
+      id: winner,
+      distance: nearest.distance,
+      confidence: agreement * (1 - nearest.distance / this.threshold / 2),
+    };
+  }
+}
+
+// Collects samples of one hand shape while the user holds it
+export class GestureTrainer {
+  private samples: number[][] = [];
+  private lastSampleTime: number = -Infinity;
+  readonly SAMPLES_NEEDED = 15;
+  private readonly SAMPLE_INTERVAL = 150; // ms - spreads samples over small hand movements
+
+  // Record a sample if enough time has passed; returns true when one was taken
+  addSample(landmarks: HandLandmark[], isRightHand: boolean, timestamp: number): boolean {
+    if (this.isComplete() || timestamp - this.lastSampleTime < this.SAMPLE_INTERVAL) return false;
+    const features = normalizeHand(landmarks, isRightHand);
+    if (features.length === 0) return false;
+
+    this.samples.push(features);
+    this.lastSampleTime = timestamp;
+    return true;
+  }
+
+  getProgress(): number {
+    return Math.min(1, this.samples.length / this.SAMPLES_NEEDED);
+  }
+
+  isComplete(): boolean {
+    return this.samples.length >= this.SAMPLES_NEEDED;
+  }
+
+  createTemplate(name: string): CustomGestureTemplate {
+    return {
+      id: createCustomGestureId(),
+      name: name.trim() || 'Custom Gesture',
+      samples: [...this.samples],
+      createdAt: Date.now(),
+    };
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.lastSampleTime = -Infinity;
+  }
+}
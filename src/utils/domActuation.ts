@@ -0,0 +1,408 @@
+// DOM actuation for AccessMate
+// Turns cursor positions and clicks into real pointer, mouse, wheel and keyboard events
+// on whatever element is under the cursor, so the page can be operated hands-free
+
+export type MouseButton = 'left' | 'right';
+
+export type MediaAction = 'playPause' | 'volumeUp' | 'volumeDown' | 'nextTrack' | 'previousTrack';
+
+const FOCUSABLE_SELECTOR = 'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"]), [contenteditable="true"]';
+const SCROLL_STEP = 120; // px per wheel notch
+const VOLUME_STEP = 0.1;
+
+const BUTTON_CODES: Record<MouseButton, { button: number; buttons: number }> = {
+  left: { button: 0, buttons: 1 },
+  right: { button: 2, buttons: 2 },
+};
+
+// Virtual keyboard key names to KeyboardEvent.key values
+const KEY_NAMES: Record<string, string> = {
+  Backspace: 'Backspace',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Esc: 'Escape',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+  Home: 'Home',
+  End: 'End',
+  PgUp: 'PageUp',
+  PgDn: 'PageDown',
+  Del: 'Delete',
+  Ins: 'Insert',
+};
+
+// KeyboardEvent.key for a named virtual keyboard key, or null for plain text
+export function toKeyboardKey(key: string): string | null {
+  return KEY_NAMES[key] ?? null;
+}
+
+// Keys with special handling that must never be inserted as text
+const COMMAND_KEYS = new Set([...Object.values(KEY_NAMES), 'SelectAll', 'Copy', 'Paste']);
+
+type EditableElement = HTMLInputElement | HTMLTextAreaElement;
+
+function isEditable(element: Element | null): element is EditableElement {
+  if (element instanceof HTMLTextAreaElement) return !element.disabled && !element.readOnly;
+  if (element instanceof HTMLInputElement) {
+    const textTypes = ['text', 'search', 'email', 'url', 'tel', 'password', 'number'];
+    return textTypes.includes(element.type) && !element.disabled && !element.readOnly;
+  }
+  return false;
+}
+
+// Set an input's value so React's onChange sees it
+function setNativeValue(element: EditableElement | HTMLInputElement, value: string): void {
+  const prototype = element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(element, value);
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+function isRangeInput(element: Element | null): element is HTMLInputElement {
+  return element instanceof HTMLInputElement && element.type === 'range' && !element.disabled;
+}
+
+export class DomActuator {
+  private hoverTarget: Element | null = null;
+  private dragTarget: Element | null = null;
+  private lastEditable: EditableElement | null = null;
+
+  // Topmost element under a viewport point (the cursor overlay ignores pointer events)
+  elementAt(x: number, y: number): Element | null {
+    return document.elementFromPoint(x, y);
+  }
+
+  private pointerInit(x: number, y: number, button: MouseButton | null, pressed: boolean): PointerEventInit {
+    const codes = button ? BUTTON_CODES[button] : { button: -1, buttons: 0 };
+    return {
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      view: window,
+      clientX: x,
+      clientY: y,
+      screenX: window.screenX + x,
+      screenY: window.screenY + y,
+      button: codes.button,
+      buttons: pressed ? codes.buttons : 0,
+      pointerId: 1,
+      pointerType: 'mouse',
+      isPrimary: true,
+    };
+  }
+
+  private dispatchPointer(target: Element, type: string, init: PointerEventInit): boolean {
+    const PointerCtor = typeof PointerEvent === 'function' ? PointerEvent : MouseEvent;
+    return target.dispatchEvent(new PointerCtor(type, init));
+  }
+
+  private dispatchMouse(target: Element, type: string, init: MouseEventInit): boolean {
+    return target.dispatchEvent(new MouseEvent(type, init));
+  }
+
+  // Move the pointer, firing enter/leave events when the element under it changes
+  hover(x: number, y: number): void {
+    const target = this.elementAt(x, y);
+    const init = this.pointerInit(x, y, null, this.dragTarget !== null);
+
+    if (target !== this.hoverTarget) {
+      if (this.hoverTarget?.isConnected) {
+        this.dispatchPointer(this.hoverTarget, 'pointerout', { ...init, relatedTarget: target });
+        this.dispatchMouse(this.hoverTarget, 'mouseout', { ...init, relatedTarget: target });
+        this.dispatchPointer(this.hoverTarget, 'pointerleave', { ...init, bubbles: false, relatedTarget: target });
+        this.dispatchMouse(this.hoverTarget, 'mouseleave', { ...init, bubbles: false, relatedTarget: target });
+      }
+      if (target) {
+        this.dispatchPointer(target, 'pointerover', { ...init, relatedTarget: this.hoverTarget });
+        this.dispatchMouse(target, 'mouseover', { ...init, relatedTarget: this.hoverTarget });
+        this.dispatchPointer(target, 'pointerenter', { ...init, bubbles: false, relatedTarget: this.hoverTarget });
+        this.dispatchMouse(target, 'mouseenter', { ...init, bubbles: false, relatedTarget: this.hoverTarget });
+      }
+      this.hoverTarget = target;
+    }
+
+    if (target) {
+      this.dispatchPointer(target, 'pointermove', init);
+      this.dispatchMouse(target, 'mousemove', init);
+    }
+  }
+
+  // Full press/release sequence; returns the element that was clicked
+  click(x: number, y: number, button: MouseButton = 'left'): Element | null {
+    const target = this.elementAt(x, y);
+    if (!target) return null;
+
+    const down = this.pointerInit(x, y, button, true);
+    const up = this.pointerInit(x, y, button, false);
+
+    this.dispatchPointer(target, 'pointerdown', down);
+    const allowDefault = this.dispatchMouse(target, 'mousedown', down);
+    if (allowDefault) this.focus(target);
+
+    this.dispatchPointer(target, 'pointerup', up);
+    this.dispatchMouse(target, 'mouseup', up);
+
+    if (button === 'right') {
+      this.dispatchMouse(target, 'contextmenu', up);
+    } else if (isRangeInput(target)) {
+      this.setRangeFromPoint(target, x);
+    } else {
+      // HTMLElement.click() also runs default actions (links, checkboxes, submit buttons)
+      if (target instanceof HTMLElement) {
+        target.click();
+      } else {
+        this.dispatchMouse(target, 'click', { ...up, detail: 1 });
+      }
+    }
+
+    return target;
+  }
+
+  doubleClick(x: number, y: number): Element | null {
+    const target = this.click(x, y);
+    this.click(x, y);
+    if (target) {
+      this.dispatchMouse(target, 'dblclick', { ...this.pointerInit(x, y, 'left', false), detail: 2 });
+    }
+    return target;
+  }
+
+  // Wheel event at the point; scrolls the nearest scrollable ancestor unless a handler cancels it
+  scroll(x: number, y: number, deltaY: number, deltaX: number = 0): void {
+    const target = this.elementAt(x, y) ?? document.scrollingElement;
+    if (!target) return;
+
+    const notCancelled = target.dispatchEvent(new WheelEvent('wheel', {
+      ...this.pointerInit(x, y, null, false),
+      deltaX: deltaX * SCROLL_STEP,
+      deltaY: deltaY * SCROLL_STEP,
+      deltaMode: WheelEvent.DOM_DELTA_PIXEL,
+    }));
+    if (!notCancelled) return;
+
+    const scroller = this.findScrollable(target, deltaX !== 0 && deltaY === 0 ? 'x' : 'y');
+    scroller.scrollBy({ left: deltaX * SCROLL_STEP, top: deltaY * SCROLL_STEP, behavior: 'smooth' });
+  }
+
+  private findScrollable(start: Element, axis: 'x' | 'y'): Element {
+    for (let element: Element | null = start; element; element = element.parentElement) {
+      const style = getComputedStyle(element);
+      const overflow = axis === 'y' ? style.overflowY : style.overflowX;
+      const canScroll = axis === 'y'
+        ? element.scrollHeight > element.clientHeight
+        : element.scrollWidth > element.clientWidth;
+      if (canScroll && (overflow === 'auto' || overflow === 'scroll')) return element;
+    }
+    return document.scrollingElement ?? document.documentElement;
+  }
+
+  // Drag sequences: press at the start point, move, release at the end point
+  startDrag(x: number, y: number): void {
+    const target = this.elementAt(x, y);
+    if (!target) return;
+
+    this.dragTarget = target;
+    const init = this.pointerInit(x, y, 'left', true);
+    this.dispatchPointer(target, 'pointerdown', init);
+    if (this.dispatchMouse(target, 'mousedown', init)) this.focus(target);
+  }
+
+  moveDrag(x: number, y: number): void {
+    if (!this.dragTarget) return;
+
+    // A dragged slider follows the cursor like a real thumb drag
+    if (isRangeInput(this.dragTarget)) {
+      this.setRangeFromPoint(this.dragTarget, x);
+    }
+    this.hover(x, y);
+  }
+
+  endDrag(x: number, y: number): void {
+    const start = this.dragTarget;
+    if (!start) return;
+    this.dragTarget = null;
+
+    const target = this.elementAt(x, y) ?? start;
+    const init = this.pointerInit(x, y, 'left', false);
+    this.dispatchPointer(target, 'pointerup', init);
+    this.dispatchMouse(target, 'mouseup', init);
+    if (isRangeInput(start)) {
+      start.dispatchEvent(new Event('change', { bubbles: true }));
+    } else if (target === start) {
+      this.dispatchMouse(target, 'click', { ...init, detail: 1 });
+    }
+  }
+
+  isDragging(): boolean {
+    return this.dragTarget !== null;
+  }
+
+  // Focus the closest focusable element, or clear focus when clicking on nothing focusable
+  focus(target: Element): void {
+    const focusable = target.closest(FOCUSABLE_SELECTOR);
+    if (focusable instanceof HTMLElement) {
+      focusable.focus({ preventScroll: true });
+      if (isEditable(focusable)) this.lastEditable = focusable;
+    } else if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+  }
+
+  // Type a virtual keyboard key into the focused (or last focused) text field
+  typeKey(key: string): void {
+    const active = document.activeElement;
+    const field = isEditable(active) ? active : this.lastEditable?.isConnected ? this.lastEditable : null;
+    const eventKey = KEY_NAMES[key] ?? key;
+    const target = field ?? active ?? document.body;
+
+    const keyInit: KeyboardEventInit = { key: eventKey, bubbles: true, cancelable: true, composed: true };
+    const allowDefault = target.dispatchEvent(new KeyboardEvent('keydown', keyInit));
+
+    if (allowDefault && field) {
+      field.focus({ preventScroll: true });
+      this.editField(field, eventKey);
+    } else if (allowDefault && eventKey === 'Enter' && active instanceof HTMLElement && active.matches('button, a[href], [role="button"]')) {
+      // Enter activates a focused button or link
+      active.click();
+    }
+
+    target.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+  }
+
+  private editField(field: EditableElement, key: string): void {
+    // Selection APIs are unavailable on some input types (e.g. email, number)
+    let start: number;
+    let end: number;
+    try {
+      start = field.selectionStart ?? field.value.length;
+      end = field.selectionEnd ?? field.value.length;
+    } catch {
+      start = end = field.value.length;
+    }
+    const { value } = field;
+
+    const replace = (text: string, from: number, to: number) => {
+      setNativeValue(field, value.slice(0, from) + text + value.slice(to));
+      const caret = from + text.length;
+      try {
+        field.setSelectionRange(caret, caret);
+      } catch {
+        // Input type does not support selection
+      }
+    };
+    const moveCaret = (position: number) => {
+      try {
+        field.setSelectionRange(position, position);
+      } catch {
+        // Input type does not support selection
+      }
+    };
+
+    switch (key) {
+      case 'Backspace':
+        if (start !== end) replace('', start, end);
+        else if (start > 0) replace('', start - 1, start);
+        break;
+      case 'Delete':
+        if (start !== end) replace('', start, end);
+        else if (end < value.length) replace('', start, end + 1);
+        break;
+      case 'Enter':
+        if (field instanceof HTMLTextAreaElement) replace('\n', start, end);
+        else field.form?.requestSubmit();
+        break;
+      case 'ArrowLeft':
+        moveCaret(Math.max(0, start - 1));
+        break;
+      case 'ArrowRight':
+        moveCaret(Math.min(value.length, end + 1));
+        break;
+      case 'Home':
+        moveCaret(0);
+        break;
+      case 'End':
+        moveCaret(value.length);
+        break;
+      case 'SelectAll':
+        field.select();
+        break;
+      case 'Copy':
+        void navigator.clipboard?.writeText(start !== end ? value.slice(start, end) : value).catch(() => undefined);
+        break;
+      case 'Paste':
+        void navigator.clipboard?.readText().then((text) => replace(text, start, end)).catch(() => undefined);
+        break;
+      default:
+        // Single characters and word predictions / phrases are inserted as text
+        if (!COMMAND_KEYS.has(key)) replace(key, start, end);
+    }
+  }
+
+  // Ctrl+wheel at a point, which maps and image viewers treat as pinch zoom
+  zoom(x: number, y: number, direction: 'in' | 'out'): void {
+    const target = this.elementAt(x, y) ?? document.body;
+    target.dispatchEvent(new WheelEvent('wheel', {
+      ...this.pointerInit(x, y, null, false),
+      ctrlKey: true,
+      deltaY: direction === 'in' ? -SCROLL_STEP : SCROLL_STEP,
+      deltaMode: WheelEvent.DOM_DELTA_PIXEL,
+    }));
+  }
+
+  // Control the page's media: the playing element, else the one under the cursor, else the first.
+  // Live streams (our own webcam feed) are never touched - pausing them stops tracking
+  controlMedia(action: MediaAction, x?: number, y?: number): void {
+    const isPlayable = (element: unknown): element is HTMLMediaElement =>
+      element instanceof HTMLMediaElement && !(element.srcObject instanceof MediaStream);
+    const elements = Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio')).filter(isPlayable);
+    const underCursor = x !== undefined && y !== undefined ? this.elementAt(x, y)?.closest('video, audio') : null;
+    const media =
+      elements.find((element) => !element.paused) ??
+      (isPlayable(underCursor) ? underCursor : null) ??
+      elements[0];
+
+    switch (action) {
+      case 'playPause':
+        if (!media) return;
+        if (media.paused) void media.play().catch(() => undefined);
+        else media.pause();
+        break;
+      case 'volumeUp':
+        if (media) media.volume = Math.min(1, media.volume + VOLUME_STEP);
+        break;
+      case 'volumeDown':
+        if (media) media.volume = Math.max(0, media.volume - VOLUME_STEP);
+        break;
+      case 'nextTrack':
+      case 'previousTrack': {
+        // Pages with playlists listen for the media keys themselves
+        const key = action === 'nextTrack' ? 'MediaTrackNext' : 'MediaTrackPrevious';
+        const keyInit: KeyboardEventInit = { key, bubbles: true, cancelable: true, composed: true };
+        const target = document.activeElement ?? document.body;
+        target.dispatchEvent(new KeyboardEvent('keydown', keyInit));
+        target.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+        break;
+      }
+    }
+  }
+
+  private setRangeFromPoint(input: HTMLInputElement, x: number): void {
+    const rect = input.getBoundingClientRect();
+    const min = parseFloat(input.min || '0');
+    const max = parseFloat(input.max || '100');
+    const step = input.step === 'any' ? 0 : parseFloat(input.step || '1');
+    const fraction = Math.max(0, Math.min(1, (x - rect.left) / (rect.width || 1)));
+
+    let value = min + fraction * (max - min);
+    if (step > 0) value = min + Math.round((value - min) / step) * step;
+
+    // Round away floating point noise from the step arithmetic
+    setNativeValue(input, String(Number(Math.max(min, Math.min(max, value)).toFixed(6))));
+  }
+
+  reset(): void {
+    this.hoverTarget = null;
+    this.dragTarget = null;
+  }
+}
+
+export const domActuator = new DomActuator();
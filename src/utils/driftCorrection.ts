@@ -0,0 +1,186 @@
+// Drift correction for AccessMate
+// Over a long session users slump, lean or shift in their chair and the calibrated
+// centre goes stale. Resting near the centre slowly pulls it along, moving well out
+// of the calibrated box asks the user to re-centre, and every adjustment is logged
+
+import {
+  averageHeadPose,
+  normalizeHeadPose,
+  type CalibrationData,
+  type RawHeadPose,
+} from './headTracking';
+
+export type CalibrationAdjustment = 'drift' | 'recenter' | 'calibrate';
+
+export interface DriftLogEntry {
+  timestamp: number; // Date.now()
+  kind: CalibrationAdjustment;
+  deltaYaw: number; // change of the centre, radians
+  deltaPitch: number;
+  deltaX: number; // change of the nose centre, image widths
+  deltaY: number;
+}
+
+export interface DriftUpdate {
+  calibration: CalibrationData | null; // the centre nudged towards where the user now rests, or re-centred
+  shouldPrompt: boolean; // the face has stayed out of the calibrated box - ask to re-centre
+  isRecentered: boolean; // a requested re-centre has just happened
+}
+
+type DriftLogListener = (log: DriftLogEntry[]) => void;
+
+export class DriftCorrector {
+  private enabled = true;
+  private samples: { pose: RawHeadPose; timestamp: number }[] = [];
+  private lastAdjustTime = -Infinity;
+  private outsideSince: number | null = null;
+  private hasPrompted = false;
+  private isRecenterRequested = false;
+  private log: DriftLogEntry[] = [];
+  private listeners = new Set<DriftLogListener>();
+  private readonly STILL_TIME = 2000; // ms the head must rest before its position counts
+  private readonly STILL_SPREAD = 0.015; // radians of wobble allowed while resting
+  private readonly SETTLE_TIME = 600; // ms the head must hold still before re-centring on it
+  private readonly REST_ZONE = 0.3; // fraction of the range around the centre - further out the user is looking at something
+  private readonly MIN_OFFSET = 0.03; // fraction of the range - closer than this isn't drift
+  private readonly DRIFT_RATE = 0.2; // fraction of the offset taken up per adjustment
+  private readonly ADJUST_INTERVAL = 10000; // ms between adjustments
+  private readonly BOX_MARGIN = 1.5; // calibrated ranges from the centre before the face is out of the box
+  private readonly OUTSIDE_TIME = 3000; // ms out of the box before prompting
+  private readonly MAX_LOG = 50;
+
+  subscribe(listener: DriftLogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) this.samples = [];
+  }
+
+  // Re-centre on the head once it settles - right after a nod or a button press it is
+  // still moving
+  requestRecenter(): void {
+    this.isRecenterRequested = true;
+    this.samples = [];
+  }
+
+  isRecentering(): boolean {
+    return this.isRecenterRequested;
+  }
+
+  update(pose: RawHeadPose, calibration: CalibrationData, timestamp: number): DriftUpdate {
+    if (this.isRecenterRequested) {
+      const stillFor = this.addStillSample(pose, timestamp);
+      if (stillFor < this.SETTLE_TIME) return { calibration: null, shouldPrompt: false, isRecentered: false };
+      const rest = averageHeadPose(this.samples.map((sample) => sample.pose));
+      return { calibration: this.recenter(rest, calibration), shouldPrompt: false, isRecentered: true };
+    }
+
+    const position = normalizeHeadPose(pose, calibration);
+    const shouldPrompt = this.updateBox(position.noseX, position.noseY, timestamp);
+    // Out of the box the user has moved too far to follow - that's for re-centering
+    if (!this.enabled || this.outsideSince !== null) {
+      this.samples = [];
+      return { calibration: null, shouldPrompt, isRecentered: false };
+    }
+
+    const stillFor = this.addStillSample(pose, timestamp);
+    if (stillFor < this.STILL_TIME || timestamp - this.lastAdjustTime < this.ADJUST_INTERVAL) {
+      return { calibration: null, shouldPrompt, isRecentered: false };
+    }
+
+    // Only resting close to the centre says where the centre has gone
+    const rest = averageHeadPose(this.samples.map((sample) => sample.pose));
+    const offset = normalizeHeadPose(rest, calibration);
+    this.samples = [];
+    const distance = Math.max(Math.abs(offset.x), Math.abs(offset.y));
+    if (distance > this.REST_ZONE || distance < this.MIN_OFFSET) return { calibration: null, shouldPrompt, isRecentered: false };
+
+    this.lastAdjustTime = timestamp;
+    const adjusted = {
+      ...calibration,
+      centerYaw: calibration.centerYaw + (rest.yaw - calibration.centerYaw) * this.DRIFT_RATE,
+      centerPitch: calibration.centerPitch + (rest.pitch - calibration.centerPitch) * this.DRIFT_RATE,
+      centerX: calibration.centerX + (rest.noseX - calibration.centerX) * this.DRIFT_RATE,
+      centerY: calibration.centerY + (rest.noseY - calibration.centerY) * this.DRIFT_RATE,
+    };
+    this.record('drift', calibration, adjusted);
+    return { calibration: adjusted, shouldPrompt, isRecentered: false };
+  }
+
+  // Keep the run of samples the head has held still for; returns how long that is
+  private addStillSample(pose: RawHeadPose, timestamp: number): number {
+    const first = this.samples[0]?.pose;
+    if (!first || Math.abs(pose.yaw - first.yaw) > this.STILL_SPREAD || Math.abs(pose.pitch - first.pitch) > this.STILL_SPREAD) {
+      this.samples = [];
+    }
+    this.samples.push({ pose, timestamp });
+    return timestamp - this.samples[0].timestamp;
+  }
+
+  // Prompt once per excursion, after the face has been out of the box a while
+  private updateBox(noseX: number, noseY: number, timestamp: number): boolean {
+    if (Math.abs(noseX) <= this.BOX_MARGIN && Math.abs(noseY) <= this.BOX_MARGIN) {
+      this.outsideSince = null;
+      this.hasPrompted = false;
+      return false;
+    }
+    this.outsideSince ??= timestamp;
+    if (this.hasPrompted || timestamp - this.outsideSince < this.OUTSIDE_TIME) return false;
+    this.hasPrompted = true;
+    return true;
+  }
+
+  // Make the pose the centre, keeping the measured ranges
+  private recenter(pose: RawHeadPose, calibration: CalibrationData): CalibrationData {
+    const recentered = {
+      ...calibration,
+      centerYaw: pose.yaw,
+      centerPitch: pose.pitch,
+      centerX: pose.noseX,
+      centerY: pose.noseY,
+    };
+    this.record('recenter', calibration, recentered);
+    this.reset();
+    return recentered;
+  }
+
+  // Log a change of centre, whatever made it
+  record(kind: CalibrationAdjustment, before: CalibrationData, after: CalibrationData): void {
+    const entry: DriftLogEntry = {
+      timestamp: Date.now(),
+      kind,
+      deltaYaw: after.centerYaw - before.centerYaw,
+      deltaPitch: after.centerPitch - before.centerPitch,
+      deltaX: after.centerX - before.centerX,
+      deltaY: after.centerY - before.centerY,
+    };
+    this.log = [entry, ...this.log].slice(0, this.MAX_LOG);
+    this.listeners.forEach((listener) => listener(this.log));
+  }
+
+  // Newest first
+  getLog(): DriftLogEntry[] {
+    return this.log;
+  }
+
+  clearLog(): void {
+    this.log = [];
+    this.listeners.forEach((listener) => listener(this.log));
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.lastAdjustTime = -Infinity;
+    this.outsideSince = null;
+    this.hasPrompted = false;
+    this.isRecenterRequested = false;
+  }
+}
+
+// Export singleton instance
+export const driftCorrector = new DriftCorrector();
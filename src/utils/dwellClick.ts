@@ -0,0 +1,74 @@
+// Dwell clicking for AccessMate
+// Clicks when the cursor rests inside a small area for the configured dwell time
+
+export interface DwellState {
+  isDwelling: boolean;
+  progress: number; // 0 to 1
+  started: boolean; // dwell began on this update
+  completed: boolean; // dwell finished on this update - fire the click
+}
+
+const IDLE_STATE: DwellState = {
+  isDwelling: false,
+  progress: 0,
+  started: false,
+  completed: false,
+};
+
+export class DwellClickEngine {
+  private dwellTime = 1000; // ms
+  private radius = 0.03; // in normalized cursor units (0 to 1)
+  private readonly START_DELAY = 150; // ms of stillness before progress is shown
+
+  private anchor: { x: number; y: number } | null = null;
+  private anchorTime = 0;
+  private isDwelling = false;
+  private hasClicked = false;
+
+  setDwellTime(ms: number): void {
+    this.dwellTime = Math.max(100, ms);
+  }
+
+  setRadius(radius: number): void {
+    this.radius = Math.max(0, radius);
+  }
+
+  update(x: number, y: number, timestamp: number): DwellState {
+    // Leaving the dwell area starts a new one where the cursor is now
+    if (this.anchor === null || Math.hypot(x - this.anchor.x, y - this.anchor.y) > this.radius) {
+      this.anchor = { x, y };
+      this.anchorTime = timestamp;
+      this.isDwelling = false;
+      this.hasClicked = false;
+      return IDLE_STATE;
+    }
+
+    // Only one click per visit - the cursor must leave the area to click again
+    if (this.hasClicked) {
+      return IDLE_STATE;
+    }
+
+    const elapsed = timestamp - this.anchorTime;
+    if (elapsed < this.START_DELAY) {
+      return IDLE_STATE;
+    }
+
+    const started = !this.isDwelling;
+    this.isDwelling = true;
+
+    const progress = Math.min(1, elapsed / this.dwellTime);
+    if (progress >= 1) {
+      this.isDwelling = false;
+      this.hasClicked = true;
+      return { isDwelling: false, progress: 0, started, completed: true };
+    }
+
+    return { isDwelling: true, progress, started, completed: false };
+  }
+
+  reset(): void {
+    this.anchor = null;
+    this.isDwelling = false;
+    this.hasClicked = false;
+  }
+}
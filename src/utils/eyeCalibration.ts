@@ -0,0 +1,125 @@
+// Eye calibration for AccessMate
+// Measures how open and how closed each of the user's eyes reads, so winks and
+// blinks work for droopy lids, ptosis or glasses where fixed thresholds fail
+
+import type { CalibrationData } from './headTracking';
+
+export type EyeCalibrationPhase = 'open' | 'closed' | 'complete';
+
+export type EyeThresholds = Pick<
+  CalibrationData,
+  | 'leftEyeOpenEAR'
+  | 'rightEyeOpenEAR'
+  | 'leftEyeThreshold'
+  | 'rightEyeThreshold'
+  | 'leftEyeClosedThreshold'
+  | 'rightEyeClosedThreshold'
+  | 'isEyeCalibrated'
+>;
+
+interface Distribution {
+  mean: number;
+  spread: number; // standard deviation
+}
+
+function distribution(values: number[]): Distribution {
+  const mean = values.reduce((a, v) => a + v, 0) / values.length;
+  const variance = values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length;
+  return { mean, spread: Math.sqrt(variance) };
+}
+
+export class EyeCalibrator {
+  private phase: EyeCalibrationPhase = 'open';
+  private samples: Record<'open' | 'closed', { left: number[]; right: number[] }> = {
+    open: { left: [], right: [] },
+    closed: { left: [], right: [] },
+  };
+  private lastSampleTime: number = -Infinity;
+  readonly SAMPLES_PER_PHASE = 30;
+  private readonly SAMPLE_INTERVAL = 50; // ms
+  private readonly CLOSED_MARGIN = 0.15; // an eye must read this fraction below its open mean to count as closed
+  private readonly MIN_GAP = 0.03; // EAR between open and closed for the eye to be usable
+  private readonly CLOSED_HYSTERESIS = 0.25; // of the gap from the closed mean - kept between the closed and open thresholds
+
+  // Record each eye's aspect ratio; returns true when a sample was taken
+  addSample(leftEAR: number, rightEAR: number, timestamp: number): boolean {
+    if (this.phase === 'complete' || timestamp - this.lastSampleTime < this.SAMPLE_INTERVAL) return false;
+
+    // Closed samples only count once both eyes are clearly shut, so the user can take
+    // their time closing them
+    if (this.phase === 'closed' && !(this.isClosed('left', leftEAR) && this.isClosed('right', rightEAR))) {
+      return false;
+    }
+
+    const phaseSamples = this.samples[this.phase];
+    phaseSamples.left.push(leftEAR);
+    phaseSamples.right.push(rightEAR);
+    this.lastSampleTime = timestamp;
+    if (phaseSamples.left.length >= this.SAMPLES_PER_PHASE) {
+      this.phase = this.phase === 'open' ? 'closed' : 'complete';
+    }
+    return true;
+  }
+
+  private isClosed(eye: 'left' | 'right', ear: number): boolean {
+    const open = distribution(this.samples.open[eye]);
+    return ear < open.mean - Math.max(3 * open.spread, open.mean * this.CLOSED_MARGIN);
+  }
+
+  getPhase(): EyeCalibrationPhase {
+    return this.phase;
+  }
+
+  // 0..1 through the current phase
+  getProgress(): number {
+    if (this.phase === 'complete') return 1;
+    return Math.min(1, this.samples[this.phase].left.length / this.SAMPLES_PER_PHASE);
+  }
+
+  // Per-eye thresholds between the open and closed readings, or null if an eye's
+  // open and closed readings were too close to tell apart
+  createThresholds(): EyeThresholds | null {
+    if (this.phase !== 'complete') return null;
+    const left = this.threshold('left');
+    const right = this.threshold('right');
+    if (!left || !right) return null;
+
+    return {
+      leftEyeOpenEAR: left.open,
+      rightEyeOpenEAR: right.open,
+      leftEyeThreshold: left.threshold,
+      rightEyeThreshold: right.threshold,
+      leftEyeClosedThreshold: left.closedThreshold,
+      rightEyeClosedThreshold: right.closedThreshold,
+      isEyeCalibrated: true,
+    };
+  }
+
+  // Halfway between the two readings, kept clear of the open eye's normal flicker
+  // and the closed eye's noise where the gap allows. The eye is shut once it reads
+  // like the closed samples did, a little below that
+  private threshold(eye: 'left' | 'right'): { open: number; threshold: number; closedThreshold: number } | null {
+    const open = distribution(this.samples.open[eye]);
+    const closed = distribution(this.samples.closed[eye]);
+    if (open.mean - closed.mean < this.MIN_GAP) return null;
+
+    const lowest = closed.mean + 2 * closed.spread;
+    const highest = open.mean - 2 * open.spread;
+    const midpoint = (open.mean + closed.mean) / 2;
+    const threshold = lowest <= highest ? Math.max(lowest, Math.min(highest, midpoint)) : midpoint;
+    const closedThreshold = Math.min(
+      closed.mean + 2 * closed.spread,
+      threshold - (threshold - closed.mean) * this.CLOSED_HYSTERESIS
+    );
+    return { open: open.mean, threshold, closedThreshold };
+  }
+
+  reset(): void {
+    this.phase = 'open';
+    this.samples = {
+      open: { left: [], right: [] },
+      closed: { left: [], right: [] },
+    };
+    this.lastSampleTime = -Infinity;
+  }
+}
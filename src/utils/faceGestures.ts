@@ -1,4 +1,5 @@
 import type { Landmark } from './blinkDetection';
+import type { EyeThresholds } from './eyeCalibration';
 
 // Eye landmark indices for MediaPipe Face Mesh
 const LEFT_EYE = {
@@ -77,44 +78,77 @@ export interface EyeState {
 }
 
 export class EyeGestureDetector {
-  private leftEARHistory: number[] = [];
-  private rightEARHistory: number[] = [];
-  private readonly HISTORY_SIZE = 5;
-  private readonly WINK_THRESHOLD = 0.18;
-  private readonly OPEN_THRESHOLD = 0.22;
+  private earHistory: { timestamp: number; left: number; right: number }[] = [];
+  private readonly SMOOTHING_WINDOW = 150; // ms of EAR samples averaged together
+  private winkThreshold = 0.18;
+  private openThreshold = 0.22;
+  private readonly WINK_HYSTERESIS = 0.04; // Gap between the open and closed thresholds
   private readonly WINK_DIFF_THRESHOLD = 0.08; // Difference between eyes for wink
 
+  // Per-eye thresholds from eye calibration. Each eye's open baseline follows it through
+  // lighting and posture changes, and its thresholds keep the same ratios to the baseline
+  private eyeCalibration: Record<
+    'left' | 'right',
+    { openEAR: number; baseline: number; thresholdRatio: number; closedRatio: number }
+  > | null = null;
+  private readonly BASELINE_TIME_CONSTANT = 7000; // ms for the baseline to close most of the gap to a new level
+  private readonly MAX_FRAME_GAP = 100; // ms - a dropped stretch of frames doesn't count as time spent adapting
+  private lastTimestamp: number | null = null;
+  private readonly BASELINE_LIMIT = 0.4; // the baseline stays within this fraction of the calibrated one
+
   private leftWinkStartTime: number | null = null;
   private rightWinkStartTime: number | null = null;
   private readonly MIN_WINK_DURATION = 100; // ms
   private readonly MAX_WINK_DURATION = 500; // ms
 
-  detect(landmarks: Landmark[]): EyeState {
+  // Blinks with both eyes. Spontaneous blinks are short and rarely come in quick pairs,
+  // so a double blink needs two firm blinks close together
+  private blinkStartTime: number | null = null;
+  private lastBlinkEndTime: number | null = null; // end of a firm blink that may start a double
+  private longBlinkFired = false;
+  private longBlinkTime = 1000; // ms - eyes held closed this long is a long blink
+  private readonly MIN_BLINK_DURATION = 180; // ms - spontaneous blinks are usually shorter
+  private readonly MAX_BLINK_DURATION = 600; // ms
+  private readonly DOUBLE_BLINK_WINDOW = 700; // ms - between the first blink ending and the second starting
+
+  detect(landmarks: Landmark[], timestamp: number): EyeState {
     const leftEAR = calculateEAR(landmarks, LEFT_EYE);
     const rightEAR = calculateEAR(landmarks, RIGHT_EYE);
 
-    // Add to history for smoothing
-    this.leftEARHistory.push(leftEAR);
-    this.rightEARHistory.push(rightEAR);
-    if (this.leftEARHistory.length > this.HISTORY_SIZE) {
-      this.leftEARHistory.shift();
-      this.rightEARHistory.shift();
-    }
+    // Add to history for smoothing, keeping only the recent time window
+    this.earHistory.push({ timestamp, left: leftEAR, right: rightEAR });
+    this.earHistory = this.earHistory.filter(
+      (sample) => timestamp - sample.timestamp <= this.SMOOTHING_WINDOW
+    );
 
     // Calculate smoothed values
-    const avgLeftEAR = this.leftEARHistory.reduce((a, b) => a + b, 0) / this.leftEARHistory.length;
-    const avgRightEAR = this.rightEARHistory.reduce((a, b) => a + b, 0) / this.rightEARHistory.length;
+    const avgLeftEAR = this.earHistory.reduce((a, s) => a + s.left, 0) / this.earHistory.length;
+    const avgRightEAR = this.earHistory.reduce((a, s) => a + s.right, 0) / this.earHistory.length;
 
-    const leftOpen = avgLeftEAR > this.OPEN_THRESHOLD;
-    const rightOpen = avgRightEAR > this.OPEN_THRESHOLD;
+    const left = this.eyeThresholds('left');
+    const right = this.eyeThresholds('right');
+    const leftOpen = avgLeftEAR > left.open;
+    const rightOpen = avgRightEAR > right.open;
 
     // Detect wink: one eye closed while the other is open
     const earDiff = Math.abs(avgLeftEAR - avgRightEAR);
-    const isWinkingLeft = !leftOpen && rightOpen && earDiff > this.WINK_DIFF_THRESHOLD;
-    const isWinkingRight = !rightOpen && leftOpen && earDiff > this.WINK_DIFF_THRESHOLD;
+    const winkDiff = this.winkDiffThreshold();
+    const isWinkingLeft = !leftOpen && rightOpen && earDiff > winkDiff;
+    const isWinkingRight = !rightOpen && leftOpen && earDiff > winkDiff;
 
     // Both eyes closed detection
-    const isBothClosed = avgLeftEAR < this.WINK_THRESHOLD && avgRightEAR < this.WINK_THRESHOLD;
+    const isBothClosed = avgLeftEAR < left.closed && avgRightEAR < right.closed;
+
+    // Both eyes open - let the open baselines follow slow changes. A narrowing eye
+    // (a slow wink or blink) mustn't drag its baseline down
+    const dt = this.lastTimestamp === null
+      ? 0
+      : Math.min(this.MAX_FRAME_GAP, Math.max(0, timestamp - this.lastTimestamp));
+    this.lastTimestamp = timestamp;
+    if (leftOpen && rightOpen) {
+      this.adaptBaseline('left', avgLeftEAR, dt);
+      this.adaptBaseline('right', avgRightEAR, dt);
+    }
 
     return {
       leftOpen,
@@ -127,10 +161,9 @@ export class EyeGestureDetector {
     };
   }
 
-  // Check for intentional wink (with duration validation)
-  detectIntentionalWink(landmarks: Landmark[]): 'left' | 'right' | 'double' | null {
-    const state = this.detect(landmarks);
-    const now = Date.now();
+  // Check for intentional wink (with duration validation) in the state detect() returned for this frame
+  detectIntentionalWink(state: EyeState, timestamp: number): 'left' | 'right' | 'double' | 'long' | null {
+    const now = timestamp;
 
     // Left wink detection
     if (state.isWinkingLeft) {
@@ -162,17 +195,122 @@ export class EyeGestureDetector {
       }
     }
 
-    // Double blink detection (both eyes closed briefly)
+    return this.detectBlink(state, timestamp);
+  }
+
+  // Double blink (two firm blinks in quick succession) and long blink (eyes held closed)
+  private detectBlink(state: EyeState, timestamp: number): 'double' | 'long' | null {
     if (state.isBothClosed) {
-      // Could implement double-blink detection here
+      if (this.blinkStartTime === null) {
+        this.blinkStartTime = timestamp;
+        this.longBlinkFired = false;
+      }
+      // Fire as soon as the hold is reached, so the user knows to open their eyes
+      if (!this.longBlinkFired && timestamp - this.blinkStartTime >= this.longBlinkTime) {
+        this.longBlinkFired = true;
+        this.lastBlinkEndTime = null;
+        return 'long';
+      }
+      return null;
+    }
+
+    // Eyes open again - wait for the EAR to recover past the open threshold, so a
+    // half-open flicker in the middle of a blink doesn't split it in two
+    if (this.blinkStartTime === null || (!state.leftOpen && !state.rightOpen)) return null;
+    const start = this.blinkStartTime;
+    const duration = timestamp - start;
+    this.blinkStartTime = null;
+    if (this.longBlinkFired || duration < this.MIN_BLINK_DURATION || duration > this.MAX_BLINK_DURATION) {
+      this.lastBlinkEndTime = null;
+      return null;
     }
 
+    if (this.lastBlinkEndTime !== null && start - this.lastBlinkEndTime <= this.DOUBLE_BLINK_WINDOW) {
+      this.lastBlinkEndTime = null;
+      return 'double';
+    }
+    this.lastBlinkEndTime = timestamp;
     return null;
   }
 
+  private eyeThresholds(eye: 'left' | 'right'): { open: number; closed: number } {
+    const calibrated = this.eyeCalibration?.[eye];
+    if (!calibrated) return { open: this.openThreshold, closed: this.winkThreshold };
+    return {
+      open: calibrated.baseline * calibrated.thresholdRatio,
+      closed: calibrated.baseline * calibrated.closedRatio,
+    };
+  }
+
+  // Eyes that barely close can't open a wide gap between them
+  private winkDiffThreshold(): number {
+    if (!this.eyeCalibration) return this.WINK_DIFF_THRESHOLD;
+    const { left, right } = this.eyeCalibration;
+    const gap = (left.baseline * (1 - left.thresholdRatio) + right.baseline * (1 - right.thresholdRatio)) / 2;
+    return Math.min(this.WINK_DIFF_THRESHOLD, gap);
+  }
+
+  private adaptBaseline(eye: 'left' | 'right', ear: number, dt: number): void {
+    const calibrated = this.eyeCalibration?.[eye];
+    if (!calibrated) return;
+    const rate = 1 - Math.exp(-dt / this.BASELINE_TIME_CONSTANT);
+    const baseline = calibrated.baseline + (ear - calibrated.baseline) * rate;
+    calibrated.baseline = Math.max(
+      calibrated.openEAR * (1 - this.BASELINE_LIMIT),
+      Math.min(calibrated.openEAR * (1 + this.BASELINE_LIMIT), baseline)
+    );
+  }
+
+  // Use the user's own eye thresholds; uncalibrated eyes use the shared open threshold
+  setCalibration(calibration: EyeThresholds): void {
+    if (!calibration.isEyeCalibrated) {
+      this.eyeCalibration = null;
+      return;
+    }
+    const eye = (openEAR: number, threshold: number, closedThreshold: number) => ({
+      openEAR,
+      baseline: openEAR,
+      thresholdRatio: threshold / openEAR,
+      closedRatio: Math.min(threshold, closedThreshold) / openEAR,
+    });
+    const left = eye(calibration.leftEyeOpenEAR, calibration.leftEyeThreshold, calibration.leftEyeClosedThreshold);
+    const right = eye(calibration.rightEyeOpenEAR, calibration.rightEyeThreshold, calibration.rightEyeClosedThreshold);
+
+    // Unchanged eyes (e.g. only the head centre moved) keep their adapted baselines
+    const current = this.eyeCalibration;
+    const isSame = (a: typeof left, b: typeof left) =>
+      a.openEAR === b.openEAR && a.thresholdRatio === b.thresholdRatio && a.closedRatio === b.closedRatio;
+    if (current && isSame(current.left, left) && isSame(current.right, right)) return;
+    this.eyeCalibration = { left, right };
+  }
+
+  // Forget the frames seen so far; calibrated eyes go back to their calibrated baselines
+  reset(): void {
+    this.earHistory = [];
+    this.lastTimestamp = null;
+    this.leftWinkStartTime = null;
+    this.rightWinkStartTime = null;
+    this.blinkStartTime = null;
+    this.lastBlinkEndTime = null;
+    this.longBlinkFired = false;
+    if (this.eyeCalibration) {
+      this.eyeCalibration.left.baseline = this.eyeCalibration.left.openEAR;
+      this.eyeCalibration.right.baseline = this.eyeCalibration.right.openEAR;
+    }
+  }
+
+  setLongBlinkTime(ms: number): void {
+    this.longBlinkTime = Math.max(this.MAX_BLINK_DURATION, ms);
+  }
+
   setThresholds(wink: number, open: number): void {
-    (this as any).WINK_THRESHOLD = wink;
-    (this as any).OPEN_THRESHOLD = open;
+    this.winkThreshold = Math.min(wink, open);
+    this.openThreshold = open;
+  }
+
+  // Set the EAR above which an eye counts as open; the closed threshold follows it
+  setOpenThreshold(open: number): void {
+    this.setThresholds(open - this.WINK_HYSTERESIS, open);
   }
 }
 
@@ -185,11 +323,14 @@ export interface MouthState {
 }
 
 export class MouthGestureDetector {
-  private opennessHistory: number[] = [];
-  private readonly HISTORY_SIZE = 5;
-  private readonly OPEN_THRESHOLD = 0.03;
-
-  detect(landmarks: Landmark[]): MouthState {
+  private opennessHistory: { timestamp: number; openness: number }[] = [];
+  private readonly SMOOTHING_WINDOW = 150; // ms
+  private readonly YAWN_OPENNESS = 0.2; // Typical openness of a full yawn
+  private readonly SMILE_THRESHOLD = 0.08; // corner lift above the lip centre, in mouth widths
+  private readonly DEFAULT_OPEN_THRESHOLD = 0.03; // mouth height over width at the middle setting (0.5)
+  private openThreshold = this.DEFAULT_OPEN_THRESHOLD;
+
+  detect(landmarks: Landmark[], timestamp: number): MouthState {
     // Calculate mouth openness
     const upperLip = landmarks[MOUTH.upperOuter];
     const lowerLip = landmarks[MOUTH.lowerOuter];
@@ -202,14 +343,14 @@ export class MouthGestureDetector {
     // Normalize by mouth width
     const openness = mouthWidth > 0 ? mouthHeight / mouthWidth : 0;
 
-    // Smooth the value
-    this.opennessHistory.push(openness);
-    if (this.opennessHistory.length > this.HISTORY_SIZE) {
-      this.opennessHistory.shift();
-    }
-    const avgOpenness = this.opennessHistory.reduce((a, b) => a + b, 0) / this.opennessHistory.length;
+    // Smooth the value over the recent time window
+    this.opennessHistory.push({ timestamp, openness });
+    this.opennessHistory = this.opennessHistory.filter(
+      (sample) => timestamp - sample.timestamp <= this.SMOOTHING_WINDOW
+    );
+    const avgOpenness = this.opennessHistory.reduce((a, s) => a + s.openness, 0) / this.opennessHistory.length;
 
-    const isOpen = avgOpenness > this.OPEN_THRESHOLD;
+    const isOpen = avgOpenness > this.openThreshold;
 
     // Detect smile (mouth corners higher than center)
     const mouthCenter = (upperLip.y + lowerLip.y) / 2;
@@ -217,12 +358,14 @@ export class MouthGestureDetector {
     const rightCornerHeight = mouthCenter - mouthRight.y;
     const avgCornerHeight = (leftCornerHeight + rightCornerHeight) / 2;
 
-    const isSmiling = avgCornerHeight > 0.005;
-    const smileIntensity = Math.max(0, Math.min(1, avgCornerHeight * 100));
+    // Relative to the mouth width, so it doesn't depend on distance from the camera
+    const cornerLift = mouthWidth > 0 ? avgCornerHeight / mouthWidth : 0;
+    const isSmiling = cornerLift > this.SMILE_THRESHOLD;
+    const smileIntensity = Math.max(0, Math.min(1, cornerLift / (this.SMILE_THRESHOLD * 2)));
 
     // Calculate normalized open ratio (0 to 1) for fatigue detection
     // Average mouth openness when yawning is around 0.15-0.25
-    const openRatio = Math.min(1, avgOpenness / 0.2);
+    const openRatio = Math.min(1, avgOpenness / this.YAWN_OPENNESS);
 
     return {
       isOpen,
@@ -232,6 +375,16 @@ export class MouthGestureDetector {
       smileIntensity,
     };
   }
+
+  // Set how far the mouth must open to count as open (0 to 1); 0.5 is the standard
+  // threshold, lower values open more easily and higher ones need a wider mouth
+  setOpenThreshold(level: number): void {
+    this.openThreshold = Math.max(0, Math.min(1, level)) * 2 * this.DEFAULT_OPEN_THRESHOLD;
+  }
+
+  reset(): void {
+    this.opennessHistory = [];
+  }
 }
 
 export interface EyebrowState {
@@ -241,34 +394,49 @@ export interface EyebrowState {
 }
 
 export class EyebrowDetector {
-  private baselineLeftY: number | null = null;
-  private baselineRightY: number | null = null;
-  private readonly RAISE_THRESHOLD = 0.015;
+  private baselineLeft: number | null = null;
+  private baselineRight: number | null = null;
+  private readonly RAISE_THRESHOLD = 0.05; // brow lift in eye-corner distances
+  private readonly BASELINE_RATE = 0.02; // per frame - the resting height follows slow drift
+
+  // Brow height above the eye, relative to the distance between the outer eye
+  // corners so leaning towards or away from the camera doesn't move it
+  private measure(landmarks: Landmark[]): { left: number; right: number } {
+    const faceSize = euclideanDistance(landmarks[LEFT_EYE.outer], landmarks[RIGHT_EYE.outer]) || 1;
+    const height = (brow: number[], eyeUpper: number[]) => {
+      const browY = brow.reduce((sum, i) => sum + landmarks[i].y, 0) / brow.length;
+      const eyeY = eyeUpper.reduce((sum, i) => sum + landmarks[i].y, 0) / eyeUpper.length;
+      return (eyeY - browY) / faceSize;
+    };
+    return {
+      left: height(LEFT_EYEBROW, LEFT_EYE.upper),
+      right: height(RIGHT_EYEBROW, RIGHT_EYE.upper),
+    };
+  }
 
   calibrate(landmarks: Landmark[]): void {
-    const leftBrow = LEFT_EYEBROW.map(i => landmarks[i]);
-    const rightBrow = RIGHT_EYEBROW.map(i => landmarks[i]);
-
-    this.baselineLeftY = leftBrow.reduce((sum, p) => sum + p.y, 0) / leftBrow.length;
-    this.baselineRightY = rightBrow.reduce((sum, p) => sum + p.y, 0) / rightBrow.length;
+    const { left, right } = this.measure(landmarks);
+    this.baselineLeft = left;
+    this.baselineRight = right;
   }
 
   detect(landmarks: Landmark[]): EyebrowState {
-    const leftBrow = LEFT_EYEBROW.map(i => landmarks[i]);
-    const rightBrow = RIGHT_EYEBROW.map(i => landmarks[i]);
-
-    const currentLeftY = leftBrow.reduce((sum, p) => sum + p.y, 0) / leftBrow.length;
-    const currentRightY = rightBrow.reduce((sum, p) => sum + p.y, 0) / rightBrow.length;
+    const { left, right } = this.measure(landmarks);
 
     // Auto-calibrate if not set
-    if (this.baselineLeftY === null) {
-      this.baselineLeftY = currentLeftY;
-      this.baselineRightY = currentRightY;
+    if (this.baselineLeft === null || this.baselineRight === null) {
+      this.baselineLeft = left;
+      this.baselineRight = right;
     }
 
-    // Detect raised eyebrows (y decreases when raised)
-    const leftRaised = (this.baselineLeftY! - currentLeftY) > this.RAISE_THRESHOLD;
-    const rightRaised = (this.baselineRightY! - currentRightY) > this.RAISE_THRESHOLD;
+    const leftRaised = left - this.baselineLeft > this.RAISE_THRESHOLD;
+    const rightRaised = right - this.baselineRight > this.RAISE_THRESHOLD;
+
+    // Follow slow changes in the resting height, but not a raise
+    if (!leftRaised && !rightRaised) {
+      this.baselineLeft += (left - this.baselineLeft) * this.BASELINE_RATE;
+      this.baselineRight += (right - this.baselineRight) * this.BASELINE_RATE;
+    }
 
     return {
       leftRaised,
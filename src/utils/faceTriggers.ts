@@ -0,0 +1,143 @@
+// Face triggers for AccessMate
+// Eyebrow raises, smiles, mouth opening, head roll and leaning in, each held briefly
+// before firing, so users without hand function have more than two winks to bind
+
+import type { Landmark } from './blinkDetection';
+import { EyebrowDetector, type MouthState } from './faceGestures';
+
+export type FaceTriggerType =
+  | 'browRaiseLeft'
+  | 'browRaiseRight'
+  | 'browRaiseBoth'
+  | 'smile'
+  | 'mouthOpen'
+  | 'headRollLeft'
+  | 'headRollRight'
+  | 'leanIn';
+
+export interface FaceTriggerTiming {
+  holdTime: number; // ms the expression must be held before it fires
+  cooldown: number; // ms before the same trigger can fire again
+}
+
+export interface FaceTriggerResult {
+  trigger: FaceTriggerType | null; // fired this frame
+  active: FaceTriggerType | null; // being held, fired or not
+}
+
+export const FACE_TRIGGERS: FaceTriggerType[] = [
+  'browRaiseLeft',
+  'browRaiseRight',
+  'browRaiseBoth',
+  'smile',
+  'mouthOpen',
+  'headRollLeft',
+  'headRollRight',
+  'leanIn',
+];
+
+// Mouth opening stays quick as it drags; the rest are held long enough not to fire mid-conversation
+export const DEFAULT_FACE_TRIGGER_TIMINGS: Record<FaceTriggerType, FaceTriggerTiming> = {
+  browRaiseLeft: { holdTime: 300, cooldown: 800 },
+  browRaiseRight: { holdTime: 300, cooldown: 800 },
+  browRaiseBoth: { holdTime: 300, cooldown: 800 },
+  smile: { holdTime: 600, cooldown: 1500 },
+  mouthOpen: { holdTime: 0, cooldown: 300 },
+  headRollLeft: { holdTime: 400, cooldown: 1000 },
+  headRollRight: { holdTime: 400, cooldown: 1000 },
+  leanIn: { holdTime: 500, cooldown: 1500 },
+};
+
+// MediaPipe Face Mesh landmark indices
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+
+export class FaceTriggerDetector {
+  private eyebrows = new EyebrowDetector();
+  private timings: Record<FaceTriggerType, FaceTriggerTiming> = { ...DEFAULT_FACE_TRIGGER_TIMINGS };
+  private active: FaceTriggerType | null = null;
+  private activeSince = 0;
+  private hasFired = false;
+  private lastFired: Partial<Record<FaceTriggerType, number>> = {};
+  private baselineFaceSize: number | null = null;
+  private lastTimestamp: number | null = null;
+  private readonly ROLL_ANGLE = 0.25; // radians (~15 degrees) of head roll
+  private readonly LEAN_RATIO = 1.15; // face size growth over the resting size
+  // ms for the resting face size to follow slow posture changes. While leaning it still
+  // follows, slowly, so sitting closer for good ends the lean within seconds
+  private readonly BASELINE_TIME_CONSTANT = 1500;
+  private readonly LEAN_TIME_CONSTANT = 20000;
+  private readonly MAX_FRAME_GAP = 100; // ms
+
+  setTimings(timings: Partial<Record<FaceTriggerType, FaceTriggerTiming>>): void {
+    this.timings = { ...DEFAULT_FACE_TRIGGER_TIMINGS, ...timings };
+  }
+
+  update(landmarks: Landmark[], mouth: MouthState, tilt: number, timestamp: number): FaceTriggerResult {
+    const current = this.detectExpression(landmarks, mouth, tilt, timestamp);
+
+    if (current !== this.active) {
+      this.active = current;
+      this.activeSince = timestamp;
+      this.hasFired = false;
+    }
+    if (!current || this.hasFired) return { trigger: null, active: current };
+
+    // Fire once per hold, once it has been held long enough and its cooldown has passed
+    const timing = this.timings[current];
+    const lastFired = this.lastFired[current] ?? -Infinity;
+    if (timestamp - this.activeSince >= timing.holdTime && timestamp - lastFired >= timing.cooldown) {
+      this.hasFired = true;
+      this.lastFired[current] = timestamp;
+      return { trigger: current, active: current };
+    }
+    return { trigger: null, active: current };
+  }
+
+  // The single most deliberate expression on the face this frame
+  private detectExpression(landmarks: Landmark[], mouth: MouthState, tilt: number, timestamp: number): FaceTriggerType | null {
+    const faceSize = Math.hypot(
+      landmarks[RIGHT_EYE_OUTER].x - landmarks[LEFT_EYE_OUTER].x,
+      landmarks[RIGHT_EYE_OUTER].y - landmarks[LEFT_EYE_OUTER].y
+    );
+    const isLeaning = this.baselineFaceSize !== null && faceSize > this.baselineFaceSize * this.LEAN_RATIO;
+    const dt = this.lastTimestamp === null
+      ? 0
+      : Math.min(this.MAX_FRAME_GAP, Math.max(0, timestamp - this.lastTimestamp));
+    this.lastTimestamp = timestamp;
+    if (this.baselineFaceSize === null) {
+      this.baselineFaceSize = faceSize;
+    } else {
+      const timeConstant = isLeaning ? this.LEAN_TIME_CONSTANT : this.BASELINE_TIME_CONSTANT;
+      this.baselineFaceSize += (faceSize - this.baselineFaceSize) * (1 - Math.exp(-dt / timeConstant));
+    }
+    if (isLeaning) return 'leanIn';
+
+    // Tilting towards the right shoulder lowers the right eye, on the image's left
+    if (tilt <= -this.ROLL_ANGLE) return 'headRollRight';
+    if (tilt >= this.ROLL_ANGLE) return 'headRollLeft';
+
+    // An open mouth also stretches the lips, so it wins over a smile
+    if (mouth.isOpen) return 'mouthOpen';
+    if (mouth.isSmiling) return 'smile';
+
+    const brows = this.eyebrows.detect(landmarks);
+    if (brows.bothRaised) return 'browRaiseBoth';
+    if (brows.leftRaised) return 'browRaiseLeft';
+    if (brows.rightRaised) return 'browRaiseRight';
+    return null;
+  }
+
+  // Take the current face as the resting face
+  calibrate(landmarks: Landmark[]): void {
+    this.eyebrows.calibrate(landmarks);
+    this.baselineFaceSize = null;
+  }
+
+  reset(): void {
+    this.active = null;
+    this.hasFired = false;
+    this.lastFired = {};
+    this.lastTimestamp = null;
+  }
+}
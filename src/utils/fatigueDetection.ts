@@ -25,21 +25,27 @@ export class FatigueDetector {
   private wasBlinking = false;
 
   // Eye state tracking
-  private leftEyeHistory: boolean[] = [];
-  private rightEyeHistory: boolean[] = [];
-  private eyeHistoryMaxLength = 30; // frames
+  private eyeHistory: { timestamp: number; closed: boolean }[] = [];
+  private readonly EYE_HISTORY_WINDOW = 1000; // ms
+
+  // Latest frame capture time; blink rate windows are measured against it
+  private lastFrameTime: number | null = null;
 
   // Yawn detection
   private yawnCount = 0;
-  private lastYawnTime = 0;
+  private lastYawnTime = -Infinity;
   private mouthOpenDuration = 0;
   private mouthWasOpen = false;
   private mouthOpenStart = 0;
 
   // Head droop detection
-  private headYHistory: number[] = [];
+  private headYHistory: { timestamp: number; y: number }[] = [];
   private headDroopEvents = 0;
   private headYBaseline: number | null = null;
+  private isHeadDrooping = false;
+  private readonly HEAD_BASELINE_WINDOW = 1000; // ms of readings before the baseline is set
+  private readonly HEAD_HISTORY_WINDOW = 2000; // ms
+  private readonly HEAD_DROOP_RECENT_WINDOW = 333; // ms
 
   // Session tracking
   private sessionStartTime: number | null = null;
@@ -83,23 +89,23 @@ export class FatigueDetector {
     this.blinkDurations = [];
     this.yawnCount = 0;
     this.headDroopEvents = 0;
-    this.leftEyeHistory = [];
-    this.rightEyeHistory = [];
+    this.eyeHistory = [];
+    this.lastFrameTime = null;
     this.headYHistory = [];
     this.headYBaseline = null;
+    this.isHeadDrooping = false;
   }
 
   // Process eye state from face detection
-  processEyeState(leftEyeOpen: boolean, rightEyeOpen: boolean): void {
-    const now = Date.now();
+  processEyeState(leftEyeOpen: boolean, rightEyeOpen: boolean, timestamp: number): void {
+    const now = timestamp;
     const isBlinking = !leftEyeOpen && !rightEyeOpen;
+    this.lastFrameTime = now;
 
-    // Track eye history
-    this.leftEyeHistory.push(leftEyeOpen);
-    this.rightEyeHistory.push(rightEyeOpen);
-    if (this.leftEyeHistory.length > this.eyeHistoryMaxLength) {
-      this.leftEyeHistory.shift();
-      this.rightEyeHistory.shift();
+    // Track eye history over the recent time window
+    this.eyeHistory.push({ timestamp: now, closed: isBlinking });
+    while (this.eyeHistory.length > 0 && now - this.eyeHistory[0].timestamp > this.EYE_HISTORY_WINDOW) {
+      this.eyeHistory.shift();
     }
 
     // Detect blink start
@@ -131,8 +137,8 @@ export class FatigueDetector {
   }
 
   // Process mouth state for yawn detection
-  processMouthState(isMouthOpen: boolean, mouthOpenRatio: number): void {
-    const now = Date.now();
+  processMouthState(isMouthOpen: boolean, mouthOpenRatio: number, timestamp: number): void {
+    const now = timestamp;
 
     // Detect yawn (mouth wide open for extended period)
     if (isMouthOpen && mouthOpenRatio > 0.6) {
@@ -155,33 +161,46 @@ export class FatigueDetector {
   }
 
   // Process head position for droop detection
-  processHeadPosition(headY: number): void {
-    // Establish baseline from first few readings
-    if (this.headYBaseline === null && this.headYHistory.length >= 30) {
-      this.headYBaseline = this.headYHistory.reduce((a, b) => a + b, 0) / this.headYHistory.length;
+  processHeadPosition(headY: number, timestamp: number): void {
+    // Establish baseline from the first second of readings
+    if (
+      this.headYBaseline === null &&
+      this.headYHistory.length > 0 &&
+      timestamp - this.headYHistory[0].timestamp >= this.HEAD_BASELINE_WINDOW
+    ) {
+      this.headYBaseline = this.headYHistory.reduce((a, b) => a + b.y, 0) / this.headYHistory.length;
     }
 
-    this.headYHistory.push(headY);
-    if (this.headYHistory.length > 60) {
+    this.headYHistory.push({ timestamp, y: headY });
+    while (timestamp - this.headYHistory[0].timestamp > this.HEAD_HISTORY_WINDOW) {
       this.headYHistory.shift();
     }
 
     // Detect head droop (head position significantly lower than baseline)
     if (this.headYBaseline !== null) {
       const droopAmount = headY - this.headYBaseline;
+      let isDrooping = false;
       if (droopAmount > this.HEAD_DROOP_THRESHOLD) {
         // Check if this is a sustained droop
-        const recentAvg = this.headYHistory.slice(-10).reduce((a, b) => a + b, 0) / 10;
-        if (recentAvg - this.headYBaseline > this.HEAD_DROOP_THRESHOLD * 0.8) {
-          this.headDroopEvents++;
-        }
+        const recent = this.headYHistory.filter(
+          (sample) => timestamp - sample.timestamp <= this.HEAD_DROOP_RECENT_WINDOW
+        );
+        const recentAvg = recent.reduce((a, b) => a + b.y, 0) / recent.length;
+        isDrooping = recentAvg - this.headYBaseline > this.HEAD_DROOP_THRESHOLD * 0.8;
+      }
+
+      // Count each droop once, however many frames it lasts
+      if (isDrooping && !this.isHeadDrooping) {
+        this.headDroopEvents++;
       }
+      this.isHeadDrooping = isDrooping;
     }
   }
 
   // Calculate current blink rate (per minute)
   getBlinkRate(): number {
-    const now = Date.now();
+    const now = this.lastFrameTime;
+    if (now === null) return 0;
     const oneMinuteAgo = now - 60000;
     const recentBlinks = this.blinkTimestamps.filter(t => t > oneMinuteAgo);
     return recentBlinks.length;
@@ -207,15 +226,21 @@ export class FatigueDetector {
 
   // Count slow eye movements (PERCLOS-like metric)
   private countSlowEyeMovements(): number {
-    if (this.leftEyeHistory.length < 10) return 0;
+    if (this.eyeHistory.length < 2) return 0;
+
+    const span = this.eyeHistory[this.eyeHistory.length - 1].timestamp - this.eyeHistory[0].timestamp;
+    if (span < this.EYE_HISTORY_WINDOW / 3) return 0;
 
-    // Count how many frames eyes were closed
-    const closedFrames = this.leftEyeHistory.filter((_, i) =>
-      !this.leftEyeHistory[i] && !this.rightEyeHistory[i]
-    ).length;
+    // Sum the time eyes were closed, weighting each sample by how long it lasted
+    let closedTime = 0;
+    for (let i = 0; i < this.eyeHistory.length - 1; i++) {
+      if (this.eyeHistory[i].closed) {
+        closedTime += this.eyeHistory[i + 1].timestamp - this.eyeHistory[i].timestamp;
+      }
+    }
 
     // Return percentage of time eyes closed
-    return (closedFrames / this.leftEyeHistory.length) * 100;
+    return (closedTime / span) * 100;
   }
 
   // Calculate fatigue score (0-100)
@@ -30,91 +30,100 @@ const FINGER_MCP_IDS = {
 
 const WRIST = 0;
 
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
 export interface FingerCountResult {
   count: number;
   fingers: string[];
-  fingerStates: {
-    thumb: boolean;
-    index: boolean;
-    middle: boolean;
-    ring: boolean;
-    pinky: boolean;
-  };
+  fingerStates: Record<FingerName, boolean>;
+  extension: Record<FingerName, number>; // 0 = fully curled, 1 = fully extended; raised at 0.5
   gesture: string | null;
 }
 
-export function countFingers(landmarks: HandLandmark[], isRightHand: boolean = true): FingerCountResult {
-  const fingerNames = ['Thumb', 'Index', 'Middle', 'Ring', 'Pinky'];
-  const raisedFingers: string[] = [];
-  let count = 0;
-
-  const fingerStates = {
-    thumb: false,
-    index: false,
-    middle: false,
-    ring: false,
-    pinky: false,
-  };
+// Joint chains (MCP, PIP, DIP, TIP) of the four fingers
+const FINGER_JOINTS: Record<Exclude<FingerName, 'thumb'>, [number, number, number, number]> = {
+  index: [FINGER_MCP_IDS.INDEX, FINGER_PIP_IDS.INDEX, 7, FINGER_TIP_IDS.INDEX],
+  middle: [FINGER_MCP_IDS.MIDDLE, FINGER_PIP_IDS.MIDDLE, 11, FINGER_TIP_IDS.MIDDLE],
+  ring: [FINGER_MCP_IDS.RING, FINGER_PIP_IDS.RING, 15, FINGER_TIP_IDS.RING],
+  pinky: [FINGER_MCP_IDS.PINKY, FINGER_PIP_IDS.PINKY, 19, FINGER_TIP_IDS.PINKY],
+};
 
-  // Thumb: Compare x-coordinates (different logic for left/right hand)
-  const thumbTip = landmarks[FINGER_TIP_IDS.THUMB];
-  const thumbIP = landmarks[3]; // IP joint
-
-  // For thumb, check if tip is to the side of IP joint
-  if (isRightHand) {
-    // Right hand: thumb is raised if tip is to the left of IP
-    if (thumbTip.x < thumbIP.x) {
-      count++;
-      raisedFingers.push(fingerNames[0]);
-      fingerStates.thumb = true;
-    }
-  } else {
-    // Left hand: thumb is raised if tip is to the right of IP
-    if (thumbTip.x > thumbIP.x) {
-      count++;
-      raisedFingers.push(fingerNames[0]);
-      fingerStates.thumb = true;
-    }
-  }
+// Mean PIP / DIP angle (degrees) mapped to 0..1 between a curled and a straight finger
+const CURLED_ANGLE = 100;
+const STRAIGHT_ANGLE = 165;
+// Sideways thumb tip offset from the IP joint, in palm lengths, that counts as fully out or in
+const THUMB_SPAN = 0.2;
 
-  // Other fingers: Compare y-coordinates (tip should be above PIP for raised finger)
-  // Note: In MediaPipe, y increases downward
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
 
-  // Index finger
-  if (landmarks[FINGER_TIP_IDS.INDEX].y < landmarks[FINGER_PIP_IDS.INDEX].y) {
-    count++;
-    raisedFingers.push(fingerNames[1]);
-    fingerStates.index = true;
-  }
+// Angle at joint b between the bones to a and c, in degrees (180 = straight)
+function jointAngle(a: HandLandmark, b: HandLandmark, c: HandLandmark): number {
+  const ux = a.x - b.x, uy = a.y - b.y, uz = a.z - b.z;
+  const vx = c.x - b.x, vy = c.y - b.y, vz = c.z - b.z;
+  const lengths = Math.hypot(ux, uy, uz) * Math.hypot(vx, vy, vz);
+  if (lengths === 0) return 180;
+  const cos = (ux * vx + uy * vy + uz * vz) / lengths;
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
 
-  // Middle finger
-  if (landmarks[FINGER_TIP_IDS.MIDDLE].y < landmarks[FINGER_PIP_IDS.MIDDLE].y) {
-    count++;
-    raisedFingers.push(fingerNames[2]);
-    fingerStates.middle = true;
-  }
+// Continuous extension of each finger. The four fingers use their joint angles, so
+// the score holds whichever way the hand points; the thumb bends little, so it uses
+// how far its tip sits out to the side of its IP joint
+export function getFingerExtensions(landmarks: HandLandmark[], isRightHand: boolean = true): Record<FingerName, number> {
+  const palmSize = Math.hypot(
+    landmarks[WRIST].x - landmarks[FINGER_MCP_IDS.MIDDLE].x,
+    landmarks[WRIST].y - landmarks[FINGER_MCP_IDS.MIDDLE].y
+  ) || 1;
+
+  // Right hand: thumb is out when its tip is to the left of the IP joint; left hand mirrored
+  const thumbOffset = (landmarks[3].x - landmarks[FINGER_TIP_IDS.THUMB].x) * (isRightHand ? 1 : -1) / palmSize;
+
+  const finger = ([mcp, pip, dip, tip]: [number, number, number, number]) => {
+    const angle = (jointAngle(landmarks[mcp], landmarks[pip], landmarks[dip]) +
+      jointAngle(landmarks[pip], landmarks[dip], landmarks[tip])) / 2;
+    return clamp01((angle - CURLED_ANGLE) / (STRAIGHT_ANGLE - CURLED_ANGLE));
+  };
 
-  // Ring finger
-  if (landmarks[FINGER_TIP_IDS.RING].y < landmarks[FINGER_PIP_IDS.RING].y) {
-    count++;
-    raisedFingers.push(fingerNames[3]);
-    fingerStates.ring = true;
-  }
+  return {
+    thumb: clamp01(0.5 + thumbOffset / (THUMB_SPAN * 2)),
+    index: finger(FINGER_JOINTS.index),
+    middle: finger(FINGER_JOINTS.middle),
+    ring: finger(FINGER_JOINTS.ring),
+    pinky: finger(FINGER_JOINTS.pinky),
+  };
+}
 
-  // Pinky finger
-  if (landmarks[FINGER_TIP_IDS.PINKY].y < landmarks[FINGER_PIP_IDS.PINKY].y) {
-    count++;
-    raisedFingers.push(fingerNames[4]);
-    fingerStates.pinky = true;
-  }
+export function countFingers(landmarks: HandLandmark[], isRightHand: boolean = true): FingerCountResult {
+  const fingerNames: Record<FingerName, string> = {
+    thumb: 'Thumb',
+    index: 'Index',
+    middle: 'Middle',
+    ring: 'Ring',
+    pinky: 'Pinky',
+  };
+  const extension = getFingerExtensions(landmarks, isRightHand);
+
+  const fingerStates: Record<FingerName, boolean> = {
+    thumb: extension.thumb > 0.5,
+    index: extension.index >= 0.5,
+    middle: extension.middle >= 0.5,
+    ring: extension.ring >= 0.5,
+    pinky: extension.pinky >= 0.5,
+  };
+  const raisedFingers = (Object.keys(fingerNames) as FingerName[])
+    .filter((name) => fingerStates[name])
+    .map((name) => fingerNames[name]);
 
   // Detect gestures
   const gesture = detectGesture(fingerStates);
 
   return {
-    count,
+    count: raisedFingers.length,
     fingers: raisedFingers,
     fingerStates,
+    extension,
     gesture,
   };
 }
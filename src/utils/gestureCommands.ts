@@ -1,5 +1,8 @@
 import type { HandLandmark, FingerCountResult } from './fingerCounting';
 import { countFingers } from './fingerCounting';
+import { CustomGestureClassifier, isCustomGesture, type CustomGestureId, type CustomGestureTemplate } from './customGestures';
+import type { MotionGestureType } from './motionGestures';
+import type { TwoHandGestureType } from './twoHandGestures';
 
 export type GestureType =
   | 'fist'
@@ -11,7 +14,7 @@ export type GestureType =
   | 'pointLeft'
   | 'pointRight'
   | 'rockSign'
-  | 'okSign'
+  | 'okSign' // alias of 'ok'; the recognizer emits 'ok'
   | 'ok'
   | 'callMe'
   | 'oneFingers'
@@ -19,6 +22,9 @@ export type GestureType =
   | 'threeFingers'
   | 'fourFingers'
   | 'fiveFingers'
+  | MotionGestureType
+  | TwoHandGestureType
+  | CustomGestureId
   | null;
 
 export interface GestureResult {
@@ -48,74 +54,139 @@ export const defaultGestureActions: Record<string, GestureAction> = {
   callMe: { type: 'custom', action: 'keyboard', description: 'Toggle Keyboard' },
 };
 
+// MediaPipe hand landmark indices used for shape checks
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const INDEX_PIP = 6;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const FINGER_JOINTS = {
+  middle: { pip: 10, tip: 12 },
+  ring: { pip: 14, tip: 16 },
+  pinky: { pip: 18, tip: 20 },
+};
+
+function distance(a: HandLandmark, b: HandLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Extended = tip farther from the wrist than the PIP joint, which holds whichever way the hand points
+function isExtended(landmarks: HandLandmark[], pip: number, tip: number): boolean {
+  return distance(landmarks[tip], landmarks[WRIST]) > distance(landmarks[pip], landmarks[WRIST]);
+}
+
 export class GestureRecognizer {
   private lastGesture: GestureType = null;
   private gestureStartTime: number | null = null;
   private gestureHoldTime: number = 0;
-  private readonly MIN_HOLD_TIME = 300; // ms - minimum time to hold gesture
+  private minHoldTime = 300; // ms - minimum time to hold gesture
   private readonly GESTURE_COOLDOWN = 500; // ms - cooldown between gestures
-  private lastGestureTime: number = 0;
+  private lastGestureTime: number = -Infinity;
+  private readonly OK_CONTACT_RATIO = 0.35; // thumb-index tip gap, relative to palm size
+  private readonly POINT_AXIS_RATIO = 1.5; // how much the horizontal must dominate to point sideways
+  private customGestures = new CustomGestureClassifier();
+  private recentGestures: { gesture: GestureType; timestamp: number }[] = [];
+  private readonly STABILITY_WINDOW = 200; // ms - a pose seen throughout this long is stable
+  private minConfidence = 0.6; // below this a pose does not start or continue a hold
+
+  // The user's trained gestures take precedence over the built-in poses
+  setCustomGestures(templates: CustomGestureTemplate[], threshold: number): void {
+    this.customGestures.setTemplates(templates);
+    this.customGestures.setThreshold(threshold);
+  }
+
+  // Shapes that need finger direction or contact rather than raised / lowered fingers;
+  // confidence is how far the measurements clear their thresholds
+  private recognizeShape(landmarks: HandLandmark[]): { gesture: GestureType; confidence: number } | null {
+    const palmSize = distance(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+    if (palmSize === 0) return null;
+
+    const middle = isExtended(landmarks, FINGER_JOINTS.middle.pip, FINGER_JOINTS.middle.tip);
+    const ring = isExtended(landmarks, FINGER_JOINTS.ring.pip, FINGER_JOINTS.ring.tip);
+    const pinky = isExtended(landmarks, FINGER_JOINTS.pinky.pip, FINGER_JOINTS.pinky.tip);
+
+    // OK - thumb and index tips touching, the other three fingers extended
+    const contact = distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palmSize;
+    if (contact < this.OK_CONTACT_RATIO && middle && ring && pinky) {
+      return { gesture: 'ok', confidence: 0.5 + 0.5 * (1 - contact / this.OK_CONTACT_RATIO) };
+    }
+
+    // Point left / right - only the index extended, pointing sideways. The camera
+    // image is not mirrored, so the user's right is towards smaller x
+    if (isExtended(landmarks, INDEX_PIP, INDEX_TIP) && !middle && !ring && !pinky) {
+      const dx = landmarks[INDEX_TIP].x - landmarks[INDEX_MCP].x;
+      const dy = landmarks[INDEX_TIP].y - landmarks[INDEX_MCP].y;
+      if (Math.abs(dx) > Math.abs(dy) * this.POINT_AXIS_RATIO) {
+        // Full confidence once the finger is within about 10 degrees of horizontal
+        const dominance = Math.abs(dx) / (Math.abs(dy) * this.POINT_AXIS_RATIO + 1e-6);
+        return { gesture: dx < 0 ? 'pointRight' : 'pointLeft', confidence: Math.min(1, 0.5 + (dominance - 1) / 8) };
+      }
+    }
 
-  recognize(landmarks: HandLandmark[], isRightHand: boolean = true): GestureResult {
+    return null;
+  }
+
+  recognize(landmarks: HandLandmark[], isRightHand: boolean, timestamp: number): GestureResult {
     const fingerResult = countFingers(landmarks, isRightHand);
-    const { count, fingerStates } = fingerResult;
+    const { count, fingerStates, extension } = fingerResult;
     const { thumb, index, middle, ring, pinky } = fingerStates;
 
+    // How clearly the fingers are raised or curled: 0 when one sits on the boundary
+    const margins = Object.values(extension).map((value) => Math.abs(value - 0.5) * 2);
+    const poseClarity = (Math.min(...margins) + margins.reduce((sum, m) => sum + m, 0) / margins.length) / 2;
+
     let gesture: GestureType = null;
-    let confidence = 0.8;
+    let clarity = poseClarity;
+    const custom = this.customGestures.classify(landmarks, isRightHand);
+    const shape = custom ? null : this.recognizeShape(landmarks);
 
+    if (custom) {
+      gesture = custom.id;
+      clarity = custom.confidence;
+    }
+    else if (shape) {
+      gesture = shape.gesture;
+      clarity = shape.confidence;
+    }
     // Fist - no fingers raised
-    if (count === 0) {
+    else if (count === 0) {
       gesture = 'fist';
-      confidence = 0.95;
     }
     // Thumbs up - only thumb
     else if (thumb && !index && !middle && !ring && !pinky) {
       // Check if thumb is pointing up (y of thumb tip is above wrist)
       const thumbTip = landmarks[4];
       const wrist = landmarks[0];
-      if (thumbTip.y < wrist.y) {
-        gesture = 'thumbsUp';
-        confidence = 0.9;
-      } else {
-        gesture = 'thumbsDown';
-        confidence = 0.85;
-      }
+      gesture = thumbTip.y < wrist.y ? 'thumbsUp' : 'thumbsDown';
     }
-    // Point up - only index finger
+    // Point up - only index finger, tip above its knuckle
     else if (!thumb && index && !middle && !ring && !pinky) {
-      gesture = 'pointUp';
-      confidence = 0.9;
+      gesture = landmarks[INDEX_TIP].y < landmarks[INDEX_MCP].y ? 'pointUp' : 'oneFingers';
     }
     // Peace sign - index and middle
     else if (!thumb && index && middle && !ring && !pinky) {
       gesture = 'peaceSign';
-      confidence = 0.9;
     }
     // Three fingers
     else if (!thumb && index && middle && ring && !pinky) {
       gesture = 'threeFingers';
-      confidence = 0.85;
     }
     // Four fingers
     else if (!thumb && index && middle && ring && pinky) {
       gesture = 'fourFingers';
-      confidence = 0.85;
     }
     // Open palm - all five
     else if (thumb && index && middle && ring && pinky) {
       gesture = 'openPalm';
-      confidence = 0.95;
     }
     // Rock sign - index and pinky
     else if (!thumb && index && !middle && !ring && pinky) {
       gesture = 'rockSign';
-      confidence = 0.85;
     }
     // Call me - thumb and pinky
     else if (thumb && !index && !middle && !ring && pinky) {
       gesture = 'callMe';
-      confidence = 0.85;
     }
     // Number gestures based on count
     else if (count === 1) {
@@ -130,38 +201,60 @@ export class GestureRecognizer {
       gesture = 'fiveFingers';
     }
 
+    // A pose seen for only part of the recent window is new or flickering between classes.
+    // Measured in time, so the frame rate doesn't change the score
+    this.recentGestures.push({ gesture, timestamp });
+    const windowStart = timestamp - this.STABILITY_WINDOW;
+    // Keep the last frame before the window, which covers the window's start
+    while (this.recentGestures.length > 1 && this.recentGestures[1].timestamp <= windowStart) {
+      this.recentGestures.shift();
+    }
+    let seenFor = 0;
+    for (let i = 1; i < this.recentGestures.length; i++) {
+      if (this.recentGestures[i].gesture !== gesture) continue;
+      seenFor += this.recentGestures[i].timestamp - Math.max(windowStart, this.recentGestures[i - 1].timestamp);
+    }
+    const stability = Math.min(1, seenFor / this.STABILITY_WINDOW);
+
     return {
       gesture,
-      confidence,
+      confidence: gesture ? clarity * (0.5 + 0.5 * stability) : 0,
       fingerCount: count,
       fingerStates,
     };
   }
 
-  // Detect gesture with hold time validation
-  detectHeldGesture(landmarks: HandLandmark[], isRightHand: boolean = true): GestureType {
-    const result = this.recognize(landmarks, isRightHand);
-    const now = Date.now();
+  // Detect gesture with hold time validation; pass the frame's recognize() result
+  // if it was already computed so the stability history sees each frame once
+  detectHeldGesture(
+    landmarks: HandLandmark[],
+    isRightHand: boolean,
+    timestamp: number,
+    result: GestureResult = this.recognize(landmarks, isRightHand, timestamp)
+  ): GestureType {
+    const now = timestamp;
+    // A half-formed pose counts as no gesture, so it restarts the hold
+    const gesture = result.confidence >= this.minConfidence ? result.gesture : null;
 
     // Check cooldown
     if (now - this.lastGestureTime < this.GESTURE_COOLDOWN) {
       return null;
     }
 
-    if (result.gesture === this.lastGesture) {
+    if (gesture === this.lastGesture) {
       // Same gesture - accumulate hold time
       if (this.gestureStartTime !== null) {
         this.gestureHoldTime = now - this.gestureStartTime;
       }
     } else {
       // New gesture - reset timer
-      this.lastGesture = result.gesture;
+      this.lastGesture = gesture;
       this.gestureStartTime = now;
       this.gestureHoldTime = 0;
     }
 
     // Return gesture if held long enough
-    if (this.gestureHoldTime >= this.MIN_HOLD_TIME && result.gesture !== null) {
+    if (this.gestureHoldTime >= this.minHoldTime && gesture !== null) {
       this.lastGestureTime = now;
       this.gestureStartTime = null;
       this.gestureHoldTime = 0;
@@ -175,7 +268,7 @@ export class GestureRecognizer {
 
   getHoldProgress(): number {
     if (this.gestureStartTime === null) return 0;
-    return Math.min(1, this.gestureHoldTime / this.MIN_HOLD_TIME);
+    return Math.min(1, this.gestureHoldTime / this.minHoldTime);
   }
 
   getCurrentGesture(): GestureType {
@@ -183,13 +276,19 @@ export class GestureRecognizer {
   }
 
   setHoldTime(ms: number): void {
-    (this as any).MIN_HOLD_TIME = ms;
+    this.minHoldTime = Math.max(0, ms);
+  }
+
+  setMinConfidence(confidence: number): void {
+    this.minConfidence = Math.max(0, Math.min(1, confidence));
   }
 
   reset(): void {
     this.lastGesture = null;
     this.gestureStartTime = null;
     this.gestureHoldTime = 0;
+    this.lastGestureTime = -Infinity;
+    this.recentGestures = [];
   }
 }
 
@@ -201,25 +300,42 @@ export function executeGestureAction(gesture: GestureType, customActions?: Recor
   return actions[gesture] || null;
 }
 
-// Get gesture description for UI
-export function getGestureDescription(gesture: GestureType): string {
+// Get gesture name for UI (the action it triggers depends on the user's mappings)
+export function getGestureDescription(gesture: GestureType, customGestures: CustomGestureTemplate[] = []): string {
+  if (isCustomGesture(gesture)) {
+    return customGestures.find((template) => template.id === gesture)?.name ?? 'Custom Gesture';
+  }
+
   const descriptions: Record<string, string> = {
-    fist: 'Fist - Cancel',
-    openPalm: 'Open Palm - Pause',
-    thumbsUp: 'Thumbs Up - Confirm',
+    fist: 'Fist',
+    openPalm: 'Open Palm',
+    thumbsUp: 'Thumbs Up',
     thumbsDown: 'Thumbs Down',
-    peaceSign: 'Peace Sign - Copy',
-    pointUp: 'Point Up - Scroll Up',
+    peaceSign: 'Peace Sign',
+    pointUp: 'Point Up',
     pointLeft: 'Point Left',
     pointRight: 'Point Right',
-    rockSign: 'Rock Sign - Quick Actions',
+    rockSign: 'Rock Sign',
     okSign: 'OK Sign',
-    callMe: 'Call Me - Keyboard',
+    ok: 'OK Sign',
+    callMe: 'Call Me',
     oneFingers: 'One Finger',
     twoFingers: 'Two Fingers',
-    threeFingers: 'Three Fingers - Back',
-    fourFingers: 'Four Fingers - Forward',
-    fiveFingers: 'Five Fingers - Home',
+    threeFingers: 'Three Fingers',
+    fourFingers: 'Four Fingers',
+    fiveFingers: 'Five Fingers',
+    swipeLeft: 'Swipe Left',
+    swipeRight: 'Swipe Right',
+    swipeUp: 'Swipe Up',
+    swipeDown: 'Swipe Down',
+    circleClockwise: 'Circle Clockwise',
+    circleCounterClockwise: 'Circle Counter-Clockwise',
+    push: 'Push',
+    pull: 'Pull',
+    bothPalms: 'Both Palms',
+    bothFists: 'Both Fists',
+    pinchSpread: 'Pinch Spread',
+    pinchSqueeze: 'Pinch Squeeze',
   };
 
   return gesture ? descriptions[gesture] || gesture : '';
@@ -227,6 +343,8 @@ export function getGestureDescription(gesture: GestureType): string {
 
 // Get emoji for gesture
 export function getGestureEmoji(gesture: GestureType): string {
+  if (isCustomGesture(gesture)) return '⭐';
+
   const emojis: Record<string, string> = {
     fist: '✊',
     openPalm: '🖐️',
@@ -234,13 +352,29 @@ export function getGestureEmoji(gesture: GestureType): string {
     thumbsDown: '👎',
     peaceSign: '✌️',
     pointUp: '☝️',
+    pointLeft: '👈',
+    pointRight: '👉',
     rockSign: '🤘',
     callMe: '🤙',
+    ok: '👌',
+    okSign: '👌',
     oneFingers: '1️⃣',
     twoFingers: '2️⃣',
     threeFingers: '3️⃣',
     fourFingers: '4️⃣',
     fiveFingers: '5️⃣',
+    swipeLeft: '⬅️',
+    swipeRight: '➡️',
+    swipeUp: '⬆️',
+    swipeDown: '⬇️',
+    circleClockwise: '🔃',
+    circleCounterClockwise: '🔄',
+    push: '🫸',
+    pull: '🫷',
+    bothPalms: '🙌',
+    bothFists: '👊',
+    pinchSpread: '🤏',
+    pinchSqueeze: '🤏',
   };
 
   return gesture ? emojis[gesture] || '✋' : '';
@@ -0,0 +1,157 @@
+// Gesture sequences and chords for AccessMate
+// Combines the gestures a user can make into more commands: ordered sequences
+// ("left wink, left wink, fist") within a timeout, and chords held together
+// ("eyebrows raised + open palm")
+
+import { FACE_GESTURE_OPTIONS, type FaceGestureType } from './commandModes';
+import type { CommandId } from './commandRegistry';
+import type { CustomGestureTemplate } from './customGestures';
+import { getGestureDescription, getGestureEmoji, type GestureType } from './gestureCommands';
+
+// Any hand or face gesture that can be a step
+export type InputGesture = NonNullable<GestureType> | FaceGestureType;
+
+export type GestureBindingType = 'sequence' | 'chord';
+
+export interface GestureBinding {
+  id: string;
+  type: GestureBindingType;
+  steps: InputGesture[]; // in order for a sequence, in any order for a chord
+  action: CommandId;
+  enabled: boolean;
+}
+
+export interface SequenceProgress {
+  binding: GestureBinding;
+  matched: number; // steps made so far; all of them for a chord being held
+}
+
+export interface SequenceMatch {
+  binding: GestureBinding | null; // completed by this gesture
+  consumed: boolean; // part of a sequence or chord - its own mapping shouldn't run
+}
+
+export const DEFAULT_SEQUENCE_TIMEOUT = 1500;
+
+function faceOption(gesture: InputGesture) {
+  return FACE_GESTURE_OPTIONS.find((option) => option.value === gesture);
+}
+
+export function getInputGestureIcon(gesture: InputGesture): string {
+  return faceOption(gesture)?.icon ?? getGestureEmoji(gesture as GestureType);
+}
+
+export function getInputGestureLabel(gesture: InputGesture, customGestures: CustomGestureTemplate[] = []): string {
+  return faceOption(gesture)?.label ?? getGestureDescription(gesture as GestureType, customGestures);
+}
+
+export class GestureSequenceMatcher {
+  private sequences: GestureBinding[] = [];
+  private chords: GestureBinding[] = [];
+  private history: { gesture: InputGesture; timestamp: number }[] = [];
+  private active: Record<'face' | 'hand', InputGesture[]> = { face: [], hand: [] };
+  private chordFormedAt = new Map<string, number>();
+  private firedChords = new Set<string>();
+  private timeout = DEFAULT_SEQUENCE_TIMEOUT; // ms allowed between one step and the next
+  private readonly CHORD_HOLD = 300; // ms all of a chord's gestures must be held together
+
+  setBindings(bindings: GestureBinding[]): void {
+    const usable = bindings.filter((binding) => binding.enabled && binding.steps.length >= 2);
+    this.sequences = usable.filter((binding) => binding.type === 'sequence');
+    this.chords = usable.filter((binding) => binding.type === 'chord');
+    this.history = [];
+    this.chordFormedAt.clear();
+    this.firedChords.clear();
+  }
+
+  setTimeout(ms: number): void {
+    this.timeout = Math.max(0, ms);
+  }
+
+  // A gesture fired (a wink, a held hand gesture, a face trigger...)
+  push(gesture: InputGesture, timestamp: number): SequenceMatch {
+    this.expire(timestamp);
+    if (this.formedChords().some((chord) => chord.steps.includes(gesture))) {
+      return { binding: null, consumed: true };
+    }
+    if (this.sequences.length === 0) return { binding: null, consumed: false };
+
+    this.history.push({ gesture, timestamp });
+    const completed = this.sequences
+      .filter((sequence) => this.matchedSteps(sequence) === sequence.steps.length)
+      .sort((a, b) => b.steps.length - a.steps.length)[0];
+    if (completed) {
+      this.history = [];
+      return { binding: completed, consumed: true };
+    }
+
+    // Keep only the steps still leading somewhere
+    const longest = Math.max(0, ...this.sequences.map((sequence) => this.matchedSteps(sequence)));
+    this.history = longest > 0 ? this.history.slice(-longest) : [];
+    // The first step still does its own thing; later ones belong to the sequence
+    return { binding: null, consumed: longest >= 2 };
+  }
+
+  // Gestures currently held by the face or hands; returns a chord once it has been held long enough
+  setActive(source: 'face' | 'hand', gestures: InputGesture[], timestamp: number): GestureBinding | null {
+    this.active[source] = gestures;
+    const formed = new Set(this.formedChords().map((chord) => chord.id));
+
+    let fired: GestureBinding | null = null;
+    for (const chord of this.chords) {
+      if (!formed.has(chord.id)) {
+        this.chordFormedAt.delete(chord.id);
+        this.firedChords.delete(chord.id);
+        continue;
+      }
+      const since = this.chordFormedAt.get(chord.id) ?? timestamp;
+      this.chordFormedAt.set(chord.id, since);
+      // Once per hold - the gestures must be released before it fires again
+      if (!fired && !this.firedChords.has(chord.id) && timestamp - since >= this.CHORD_HOLD) {
+        this.firedChords.add(chord.id);
+        fired = chord;
+      }
+    }
+    return fired;
+  }
+
+  // The sequence furthest along, or a chord being held
+  getProgress(timestamp: number): SequenceProgress | null {
+    this.expire(timestamp);
+    const chord = this.formedChords().find((formed) => !this.firedChords.has(formed.id));
+    if (chord) return { binding: chord, matched: chord.steps.length };
+
+    let best: SequenceProgress | null = null;
+    for (const sequence of this.sequences) {
+      const matched = this.matchedSteps(sequence);
+      if (matched > 0 && matched > (best?.matched ?? 0)) best = { binding: sequence, matched };
+    }
+    return best;
+  }
+
+  // How many of the sequence's first steps the latest gestures match
+  private matchedSteps(sequence: GestureBinding): number {
+    for (let count = Math.min(this.history.length, sequence.steps.length); count > 0; count--) {
+      const recent = this.history.slice(-count);
+      if (recent.every((entry, i) => entry.gesture === sequence.steps[i])) return count;
+    }
+    return 0;
+  }
+
+  private formedChords(): GestureBinding[] {
+    const active = new Set([...this.active.face, ...this.active.hand]);
+    return this.chords.filter((chord) => chord.steps.every((step) => active.has(step)));
+  }
+
+  private expire(timestamp: number): void {
+    const last = this.history[this.history.length - 1];
+    if (last && timestamp - last.timestamp > this.timeout) this.history = [];
+  }
+
+  reset(): void {
+    this.history = [];
+    this.active = { face: [], hand: [] };
+    this.chordFormedAt.clear();
+    this.firedChords.clear();
+  }
+}
@@ -0,0 +1,168 @@
+// Hand pointing for AccessMate
+// The index fingertip drives the cursor through the same calibration, tremor and
+// smoothing stages as head tracking; thumb pinches click, drag and right click
+
+import type { HandLandmark } from './fingerCounting';
+import type { CalibrationData } from './headTracking';
+import {
+  createFilter,
+  DEFAULT_FILTER_CONFIG,
+  type ScalarFilter,
+  type SmoothingFilterConfig,
+} from './signalFilters';
+import { TremorFilter, type TremorProfile } from './tremorFilter';
+
+// MediaPipe Hands landmark indices
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const MIDDLE_TIP = 12;
+
+export interface HandPointerPosition {
+  x: number; // fingertip position, -1 (user's left) to 1 (user's right)
+  y: number; // fingertip position, -1 (up) to 1 (down)
+  isJerk: boolean; // holding still through an involuntary jerk
+}
+
+export type PinchEvent = 'click' | 'dragStart' | 'dragEnd' | 'rightClick';
+
+function clampUnit(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+// Thumb tip to fingertip distance, in palm lengths
+function pinchGap(landmarks: HandLandmark[], fingertip: number): number {
+  const palmSize = Math.hypot(landmarks[WRIST].x - landmarks[MIDDLE_MCP].x, landmarks[WRIST].y - landmarks[MIDDLE_MCP].y);
+  if (palmSize === 0) return Infinity;
+  return Math.hypot(landmarks[THUMB_TIP].x - landmarks[fingertip].x, landmarks[THUMB_TIP].y - landmarks[fingertip].y) / palmSize;
+}
+
+export class HandPointer {
+  private calibration: Pick<CalibrationData, 'handCenterX' | 'handCenterY' | 'handRangeX' | 'handRangeY'>;
+  private filterConfig: SmoothingFilterConfig = { ...DEFAULT_FILTER_CONFIG };
+  private filters: Record<'x' | 'y', ScalarFilter>;
+  private tremor = new TremorFilter();
+
+  constructor(calibration: CalibrationData) {
+    this.calibration = calibration;
+    this.filters = this.createFilters();
+  }
+
+  setCalibration(calibration: CalibrationData): void {
+    this.calibration = calibration;
+  }
+
+  setFilter(config: SmoothingFilterConfig): void {
+    this.filterConfig = { ...config };
+    this.filters = this.createFilters();
+  }
+
+  setTremorSuppression(enabled: boolean, jerkSpeed: number): void {
+    this.tremor.setEnabled(enabled);
+    this.tremor.setJerkSpeed(jerkSpeed);
+  }
+
+  getTremorProfile(): TremorProfile {
+    return this.tremor.getProfile();
+  }
+
+  private createFilters(): HandPointer['filters'] {
+    return {
+      x: createFilter(this.filterConfig),
+      y: createFilter(this.filterConfig),
+    };
+  }
+
+  track(landmarks: HandLandmark[], timestamp: number): HandPointerPosition {
+    const tip = landmarks[INDEX_TIP];
+
+    // The camera image is not mirrored - flip x so positive is the user's right
+    const rawX = clampUnit(-(tip.x - this.calibration.handCenterX) / this.calibration.handRangeX);
+    const rawY = clampUnit((tip.y - this.calibration.handCenterY) / this.calibration.handRangeY);
+
+    const position = this.tremor.process(rawX, rawY, timestamp);
+    return {
+      x: clampUnit(this.filters.x.filter(position.x, timestamp)),
+      y: clampUnit(this.filters.y.filter(position.y, timestamp)),
+      isJerk: position.isJerk,
+    };
+  }
+
+  // Centre pointing on the fingertip's current position, keeping the head calibration
+  calibrate(landmarks: HandLandmark[], current: CalibrationData): CalibrationData {
+    const tip = landmarks[INDEX_TIP];
+    const calibration: CalibrationData = {
+      ...current,
+      handCenterX: tip.x,
+      handCenterY: tip.y,
+    };
+    this.calibration = calibration;
+    this.reset();
+    return calibration;
+  }
+
+  reset(): void {
+    Object.values(this.filters).forEach((filter) => filter.reset());
+    this.tremor.reset();
+  }
+}
+
+// Thumb-index pinch clicks, or drags when held; thumb-middle pinch right clicks
+export class PinchClicker {
+  private indexPinch: 'none' | 'pressed' | 'dragging' = 'none';
+  private middlePinched = false;
+  private pressTime = 0;
+  private readonly PINCH_ENTER = 0.25; // palm lengths - closing below this pinches
+  private readonly PINCH_EXIT = 0.4; // palm lengths - opening past this releases
+  private readonly DRAG_DELAY = 400; // ms - a pinch held this long becomes a drag
+
+  update(landmarks: HandLandmark[], timestamp: number): PinchEvent | null {
+    const indexGap = pinchGap(landmarks, INDEX_TIP);
+    const middleGap = pinchGap(landmarks, MIDDLE_TIP);
+
+    if (this.indexPinch !== 'none') {
+      if (indexGap > this.PINCH_EXIT) {
+        const event = this.indexPinch === 'dragging' ? 'dragEnd' : 'click';
+        this.indexPinch = 'none';
+        return event;
+      }
+      if (this.indexPinch === 'pressed' && timestamp - this.pressTime >= this.DRAG_DELAY) {
+        this.indexPinch = 'dragging';
+        return 'dragStart';
+      }
+      return null;
+    }
+
+    if (this.middlePinched) {
+      if (middleGap > this.PINCH_EXIT) this.middlePinched = false;
+      return null;
+    }
+
+    // A new pinch goes to whichever finger the thumb is closer to
+    if (indexGap < this.PINCH_ENTER && indexGap <= middleGap) {
+      this.indexPinch = 'pressed';
+      this.pressTime = timestamp;
+      return null;
+    }
+    if (middleGap < this.PINCH_ENTER) {
+      this.middlePinched = true;
+      return 'rightClick';
+    }
+    return null;
+  }
+
+  // Pinched but not yet dragging - the cursor holds still so the click lands where it pointed
+  isPressed(): boolean {
+    return this.indexPinch === 'pressed';
+  }
+
+  isDragging(): boolean {
+    return this.indexPinch === 'dragging';
+  }
+
+  reset(): void {
+    this.indexPinch = 'none';
+    this.middlePinched = false;
+  }
+}
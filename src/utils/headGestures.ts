@@ -0,0 +1,158 @@
+// Head gesture recognition for AccessMate
+// Finds deliberate nods (yes), shakes (no) and quick directional flicks in the
+// head's yaw / pitch over time, so dialogs can be answered without hands or eyes
+
+import type { HeadPosition } from './headTracking';
+
+export type HeadGestureType = 'nod' | 'shake' | 'flickUp' | 'flickDown' | 'flickLeft' | 'flickRight';
+
+type HeadGestureListener = (gesture: HeadGestureType) => void;
+
+// A completed movement one way along an axis, between two turning points
+interface Swing {
+  direction: 1 | -1;
+  endTime: number;
+  isFast: boolean;
+}
+
+// Turning points of one axis: a swing completes once the head comes back from
+// its furthest point by at least the amplitude
+class AxisSwings {
+  private pivot: { value: number; time: number } | null = null;
+  private extreme: { value: number; time: number } | null = null;
+  private direction: 1 | -1 | 0 = 0;
+
+  update(value: number, time: number, amplitude: number, speed: number): Swing | null {
+    if (!this.pivot || !this.extreme) {
+      this.pivot = { value, time };
+      this.extreme = { value, time };
+      return null;
+    }
+
+    if (this.direction === 0) {
+      // Still near the starting point - let the start follow the head until it moves off
+      if (Math.abs(value - this.pivot.value) >= amplitude) {
+        this.direction = value > this.pivot.value ? 1 : -1;
+        this.extreme = { value, time };
+      } else if (time - this.pivot.time > 500) {
+        this.pivot = { value, time };
+      }
+      return null;
+    }
+
+    if ((value - this.extreme.value) * this.direction > 0) {
+      this.extreme = { value, time };
+      return null;
+    }
+    if (Math.abs(this.extreme.value - value) < amplitude) return null;
+
+    const distance = Math.abs(this.extreme.value - this.pivot.value);
+    const duration = Math.max(1, this.extreme.time - this.pivot.time) / 1000;
+    const swing: Swing = { direction: this.direction, endTime: this.extreme.time, isFast: distance / duration >= speed };
+    this.pivot = this.extreme;
+    this.extreme = { value, time };
+    this.direction = this.direction === 1 ? -1 : 1;
+    return swing;
+  }
+
+  reset(): void {
+    this.pivot = null;
+    this.extreme = null;
+    this.direction = 0;
+  }
+}
+
+export class HeadGestureRecognizer {
+  private yawSwings = new AxisSwings();
+  private pitchSwings = new AxisSwings();
+  private swings: { axis: 'yaw' | 'pitch'; swing: Swing }[] = [];
+  private lastGestureTime: number = -Infinity;
+  private rangeYaw = 0.4; // radians of head turn across the calibrated range
+  private rangePitch = 0.15;
+  private amplitude = 0.35; // fraction of the calibrated range each swing must cover
+  private speed = 2; // calibrated ranges per second each swing must reach
+  private listeners = new Set<HeadGestureListener>();
+  private readonly GESTURE_WINDOW = 1200; // ms - swings of one nod or shake
+  private readonly FLICK_SETTLE = 350; // ms - a lone swing waits this long to be sure it is not a nod or shake
+  private readonly COOLDOWN = 800; // ms
+
+  setRanges(rangeYaw: number, rangePitch: number): void {
+    this.rangeYaw = rangeYaw;
+    this.rangePitch = rangePitch;
+  }
+
+  // Tuned per profile: how far and how fast the head must move
+  setThresholds(amplitude: number, speed: number): void {
+    this.amplitude = amplitude;
+    this.speed = speed;
+  }
+
+  subscribe(listener: HeadGestureListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  update(headPos: Pick<HeadPosition, 'yaw' | 'pitch'>, timestamp: number): HeadGestureType | null {
+    // In calibrated ranges; the camera is not mirrored, so turning to the user's right lowers yaw
+    const x = -headPos.yaw / this.rangeYaw;
+    const y = headPos.pitch / this.rangePitch;
+
+    const yawSwing = this.yawSwings.update(x, timestamp, this.amplitude, this.speed);
+    const pitchSwing = this.pitchSwings.update(y, timestamp, this.amplitude, this.speed);
+    if (yawSwing) this.swings.push({ axis: 'yaw', swing: yawSwing });
+    if (pitchSwing) this.swings.push({ axis: 'pitch', swing: pitchSwing });
+    // Slow swings are pointing, not gesturing
+    this.swings = this.swings.filter(
+      ({ swing }) => swing.isFast && timestamp - swing.endTime <= this.GESTURE_WINDOW
+    );
+
+    if (timestamp - this.lastGestureTime < this.COOLDOWN) {
+      this.swings = [];
+      return null;
+    }
+
+    const gesture = this.detect(timestamp);
+    if (gesture) {
+      this.lastGestureTime = timestamp;
+      this.swings = [];
+      this.listeners.forEach((listener) => listener(gesture));
+    }
+    return gesture;
+  }
+
+  private detect(timestamp: number): HeadGestureType | null {
+    // Nod and shake: there and back and there again along one axis
+    const pitch = this.swings.filter((s) => s.axis === 'pitch');
+    const yaw = this.swings.filter((s) => s.axis === 'yaw');
+    if (pitch.length >= 2 && pitch.length > yaw.length) return 'nod';
+    if (yaw.length >= 2 && yaw.length > pitch.length) return 'shake';
+
+    // Flick: a single quick swing out (and back) with nothing following it
+    if (this.swings.length !== 1) return null;
+    const { axis, swing } = this.swings[0];
+    if (timestamp - swing.endTime < this.FLICK_SETTLE) return null;
+    if (axis === 'pitch') return swing.direction < 0 ? 'flickUp' : 'flickDown';
+    return swing.direction > 0 ? 'flickRight' : 'flickLeft';
+  }
+
+  reset(): void {
+    this.yawSwings.reset();
+    this.pitchSwings.reset();
+    this.swings = [];
+    this.lastGestureTime = -Infinity;
+  }
+}
+
+export const HEAD_GESTURE_LABELS: Record<HeadGestureType, string> = {
+  nod: 'Nod',
+  shake: 'Shake',
+  flickUp: 'Flick Up',
+  flickDown: 'Flick Down',
+  flickLeft: 'Flick Left',
+  flickRight: 'Flick Right',
+};
+
+// Export singleton instance
+export const headGestureRecognizer = new HeadGestureRecognizer();
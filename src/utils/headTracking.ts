@@ -1,4 +1,12 @@
 import type { Landmark } from './blinkDetection';
+import { applyTransfer, DEFAULT_TRANSFER_CURVE, type TransferCurve } from './transferCurves';
+import {
+  createFilter,
+  DEFAULT_FILTER_CONFIG,
+  type ScalarFilter,
+  type SmoothingFilterConfig,
+} from './signalFilters';
+import { TremorFilter, type TremorProfile } from './tremorFilter';
 
 // MediaPipe Face Mesh landmark indices
 const NOSE_TIP = 4;
@@ -8,35 +16,159 @@ const LEFT_EYE_OUTER = 33;
 const RIGHT_EYE_OUTER = 263;
 
 export interface HeadPosition {
-  x: number; // -1 (left) to 1 (right)
-  y: number; // -1 (up) to 1 (down)
+  x: number; // head rotation, -1 (user's left) to 1 (user's right)
+  y: number; // head rotation, -1 (up) to 1 (down)
+  noseX: number; // nose tip position, -1 (user's left) to 1 (user's right)
+  noseY: number; // nose tip position, -1 (up) to 1 (down)
   tilt: number; // head roll in radians
   yaw: number; // head turn left/right
   pitch: number; // head nod up/down
+  isJerk: boolean; // holding still through an involuntary jerk
+}
+
+// Head pose straight from the landmarks, before calibration
+export interface RawHeadPose {
+  yaw: number;
+  pitch: number;
+  noseX: number; // nose tip, image coordinates
+  noseY: number;
+}
+
+// Quadratic correction fitted to the calibration grid: each output is
+// c0 + c1*x + c2*y + c3*x*y + c4*x^2 + c5*y^2 of the range-scaled position
+export interface GridFit {
+  x: number[];
+  y: number[];
 }
 
 export interface CalibrationData {
+  // Neutral nose tip position and comfortable movement range (image coordinates)
   centerX: number;
   centerY: number;
   rangeX: number;
   rangeY: number;
+  // Neutral head rotation and comfortable rotation range (radians)
+  centerYaw: number;
+  centerPitch: number;
+  rangeYaw: number;
+  rangePitch: number;
+  // Comfortable extents measured each way from the centre; rangeX / rangeYaw etc. are their averages
+  rangeXLeft: number;
+  rangeXRight: number;
+  rangeYUp: number;
+  rangeYDown: number;
+  rangeYawLeft: number;
+  rangeYawRight: number;
+  rangePitchUp: number;
+  rangePitchDown: number;
+  // Corrections from the optional 9-point grid, null without one
+  rotationFit: GridFit | null;
+  noseFit: GridFit | null;
+  // Neutral index fingertip position and pointing range for hand pointing (image coordinates)
+  handCenterX: number;
+  handCenterY: number;
+  handRangeX: number;
+  handRangeY: number;
+  // Each eye's open eye aspect ratio, the ratio below which it no longer counts as open,
+  // and the one below which it is shut
+  leftEyeOpenEAR: number;
+  rightEyeOpenEAR: number;
+  leftEyeThreshold: number;
+  rightEyeThreshold: number;
+  leftEyeClosedThreshold: number;
+  rightEyeClosedThreshold: number;
+  isEyeCalibrated: boolean;
   isCalibrated: boolean;
 }
 
+export const DEFAULT_CALIBRATION: CalibrationData = {
+  centerX: 0.5,
+  centerY: 0.5,
+  rangeX: 0.3,
+  rangeY: 0.2,
+  centerYaw: 0,
+  centerPitch: 0,
+  rangeYaw: 0.4,
+  rangePitch: 0.15,
+  rangeXLeft: 0.3,
+  rangeXRight: 0.3,
+  rangeYUp: 0.2,
+  rangeYDown: 0.2,
+  rangeYawLeft: 0.4,
+  rangeYawRight: 0.4,
+  rangePitchUp: 0.15,
+  rangePitchDown: 0.15,
+  rotationFit: null,
+  noseFit: null,
+  handCenterX: 0.5,
+  handCenterY: 0.45,
+  handRangeX: 0.25,
+  handRangeY: 0.2,
+  leftEyeOpenEAR: 0.3,
+  rightEyeOpenEAR: 0.3,
+  leftEyeThreshold: 0.22,
+  rightEyeThreshold: 0.22,
+  leftEyeClosedThreshold: 0.18,
+  rightEyeClosedThreshold: 0.18,
+  isEyeCalibrated: false,
+  isCalibrated: false,
+};
+
+function clampUnit(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+// Offsets each way are scaled by that side's own range
+function scaleSided(offset: number, negativeRange: number, positiveRange: number): number {
+  return offset / (offset < 0 ? negativeRange : positiveRange);
+}
+
+// Head pose as a fraction of the calibrated range each way, unclamped
+export function normalizeHeadPose(
+  pose: RawHeadPose,
+  calibration: CalibrationData
+): { x: number; y: number; noseX: number; noseY: number } {
+  // The camera image is not mirrored, so turning or moving to the user's
+  // right decreases image x - flip it so positive x is the user's right
+  return {
+    x: scaleSided(-(pose.yaw - calibration.centerYaw), calibration.rangeYawLeft, calibration.rangeYawRight),
+    y: scaleSided(pose.pitch - calibration.centerPitch, calibration.rangePitchUp, calibration.rangePitchDown),
+    noseX: scaleSided(-(pose.noseX - calibration.centerX), calibration.rangeXLeft, calibration.rangeXRight),
+    noseY: scaleSided(pose.noseY - calibration.centerY, calibration.rangeYUp, calibration.rangeYDown),
+  };
+}
+
+export function averageHeadPose(poses: RawHeadPose[]): RawHeadPose {
+  const mean = (key: keyof RawHeadPose) => poses.reduce((sum, pose) => sum + pose[key], 0) / poses.length;
+  return { yaw: mean('yaw'), pitch: mean('pitch'), noseX: mean('noseX'), noseY: mean('noseY') };
+}
+
+export function gridFitTerms(x: number, y: number): number[] {
+  return [1, x, y, x * y, x * x, y * y];
+}
+
+// Straighten a range-scaled position with the grid correction; the quadratic
+// only holds inside the calibrated range, so the input is clamped first
+function applyGridFit(x: number, y: number, fit: GridFit | null): { x: number; y: number } {
+  const clampedX = clampUnit(x);
+  const clampedY = clampUnit(y);
+  if (!fit) return { x: clampedX, y: clampedY };
+  const terms = gridFitTerms(clampedX, clampedY);
+  const evaluate = (coefficients: number[]) => coefficients.reduce((sum, c, i) => sum + c * terms[i], 0);
+  return { x: clampUnit(evaluate(fit.x)), y: clampUnit(evaluate(fit.y)) };
+}
+
 export class HeadTracker {
   private calibration: CalibrationData;
-  private smoothedX: number = 0;
-  private smoothedY: number = 0;
-  private smoothingFactor: number = 0.7;
+  private filterConfig: SmoothingFilterConfig = { ...DEFAULT_FILTER_CONFIG };
+  private filters: Record<'x' | 'y' | 'noseX' | 'noseY', ScalarFilter>;
+  // Tremor stages run on the raw positions, before smoothing
+  private rotationTremor = new TremorFilter();
+  private noseTremor = new TremorFilter();
 
   constructor(calibration?: CalibrationData) {
-    this.calibration = calibration || {
-      centerX: 0.5,
-      centerY: 0.5,
-      rangeX: 0.3,
-      rangeY: 0.2,
-      isCalibrated: false,
-    };
+    this.calibration = calibration || { ...DEFAULT_CALIBRATION };
+    this.filters = this.createFilters();
   }
 
   setCalibration(calibration: CalibrationData): void {
@@ -44,29 +176,42 @@ export class HeadTracker {
   }
 
   setSmoothing(factor: number): void {
-    this.smoothingFactor = Math.max(0, Math.min(1, factor));
+    this.setFilter({ ...this.filterConfig, smoothing: factor });
   }
 
-  track(landmarks: Landmark[]): HeadPosition {
-    // Get nose position as primary tracking point
+  setFilter(config: SmoothingFilterConfig): void {
+    this.filterConfig = { ...config };
+    this.filters = this.createFilters();
+  }
+
+  setTremorSuppression(enabled: boolean, jerkSpeed: number): void {
+    for (const tremor of [this.rotationTremor, this.noseTremor]) {
+      tremor.setEnabled(enabled);
+      tremor.setJerkSpeed(jerkSpeed);
+    }
+  }
+
+  getTremorProfile(source: 'rotation' | 'nose'): TremorProfile {
+    return (source === 'nose' ? this.noseTremor : this.rotationTremor).getProfile();
+  }
+
+  private createFilters(): HeadTracker['filters'] {
+    return {
+      x: createFilter(this.filterConfig),
+      y: createFilter(this.filterConfig),
+      noseX: createFilter(this.filterConfig),
+      noseY: createFilter(this.filterConfig),
+    };
+  }
+
+  // Head roll, yaw and pitch from a single frame of landmarks
+  private estimatePose(landmarks: Landmark[]): { tilt: number; yaw: number; pitch: number } {
     const nose = landmarks[NOSE_TIP];
     const forehead = landmarks[FOREHEAD_CENTER];
     const chin = landmarks[CHIN];
     const leftEye = landmarks[LEFT_EYE_OUTER];
     const rightEye = landmarks[RIGHT_EYE_OUTER];
 
-    // Calculate normalized position relative to calibration
-    let rawX = (nose.x - this.calibration.centerX) / this.calibration.rangeX;
-    let rawY = (nose.y - this.calibration.centerY) / this.calibration.rangeY;
-
-    // Clamp to -1 to 1 range
-    rawX = Math.max(-1, Math.min(1, rawX));
-    rawY = Math.max(-1, Math.min(1, rawY));
-
-    // Apply smoothing
-    this.smoothedX = this.smoothedX * this.smoothingFactor + rawX * (1 - this.smoothingFactor);
-    this.smoothedY = this.smoothedY * this.smoothingFactor + rawY * (1 - this.smoothingFactor);
-
     // Calculate head rotation (tilt/roll)
     const eyeDeltaY = rightEye.y - leftEye.y;
     const eyeDeltaX = rightEye.x - leftEye.x;
@@ -84,29 +229,58 @@ export class HeadTracker {
     const normalizedPitch = noseOffset / (faceHeight || 0.1);
     const pitch = Math.atan2(normalizedPitch - 0.5, 1);
 
+    return { tilt, yaw, pitch };
+  }
+
+  // Raw pose for calibration
+  measure(landmarks: Landmark[]): RawHeadPose {
+    const nose = landmarks[NOSE_TIP];
+    const { yaw, pitch } = this.estimatePose(landmarks);
+    return { yaw, pitch, noseX: nose.x, noseY: nose.y };
+  }
+
+  track(landmarks: Landmark[], timestamp: number): HeadPosition {
+    // Get nose position as primary tracking point
+    const nose = landmarks[NOSE_TIP];
+    const { tilt, yaw, pitch } = this.estimatePose(landmarks);
+
+    // Scale to the user's own range each way, then straighten with the grid fit
+    const normalized = normalizeHeadPose({ yaw, pitch, noseX: nose.x, noseY: nose.y }, this.calibration);
+    const raw = applyGridFit(normalized.x, normalized.y, this.calibration.rotationFit);
+    const rawNose = applyGridFit(normalized.noseX, normalized.noseY, this.calibration.noseFit);
+
+    // Remove tremor and hold through jerks
+    const rotation = this.rotationTremor.process(raw.x, raw.y, timestamp);
+    const nosePos = this.noseTremor.process(rawNose.x, rawNose.y, timestamp);
+
+    // Apply smoothing
     return {
-      x: this.smoothedX,
-      y: this.smoothedY,
+      x: clampUnit(this.filters.x.filter(rotation.x, timestamp)),
+      y: clampUnit(this.filters.y.filter(rotation.y, timestamp)),
+      noseX: clampUnit(this.filters.noseX.filter(nosePos.x, timestamp)),
+      noseY: clampUnit(this.filters.noseY.filter(nosePos.y, timestamp)),
       tilt,
       yaw,
       pitch,
+      isJerk: rotation.isJerk || nosePos.isJerk,
     };
   }
 
+  // Take the current pose as the centre; the ranges are measured separately and kept
   calibrate(landmarks: Landmark[]): CalibrationData {
     const nose = landmarks[NOSE_TIP];
+    const { yaw, pitch } = this.estimatePose(landmarks);
 
     this.calibration = {
+      ...this.calibration,
       centerX: nose.x,
       centerY: nose.y,
-      rangeX: 0.25, // Comfortable head movement range
-      rangeY: 0.15,
+      centerYaw: yaw,
+      centerPitch: pitch,
       isCalibrated: true,
     };
 
-    // Reset smoothed values
-    this.smoothedX = 0;
-    this.smoothedY = 0;
+    this.reset();
 
     return this.calibration;
   }
@@ -116,28 +290,33 @@ export class HeadTracker {
   }
 
   reset(): void {
-    this.smoothedX = 0;
-    this.smoothedY = 0;
+    Object.values(this.filters).forEach((filter) => filter.reset());
+    this.rotationTremor.reset();
+    this.noseTremor.reset();
   }
 }
 
+// Shape of the deflection-to-cursor mapping
+export interface CursorTransferOptions {
+  curve?: TransferCurve;
+  gainX?: number;
+  gainY?: number;
+}
+
 // Convert head position to screen coordinates
 export function headPositionToScreen(
-  headPos: HeadPosition,
+  headPos: Pick<HeadPosition, 'x' | 'y'>,
   screenWidth: number,
   screenHeight: number,
   speed: number = 1.5,
-  deadZone: number = 0.05
+  deadZone: number = 0.05,
+  transfer: CursorTransferOptions = {}
 ): { x: number; y: number } {
-  let { x, y } = headPos;
-
-  // Apply dead zone
-  if (Math.abs(x) < deadZone) x = 0;
-  if (Math.abs(y) < deadZone) y = 0;
+  const curve = transfer.curve ?? DEFAULT_TRANSFER_CURVE;
 
-  // Apply speed multiplier
-  x *= speed;
-  y *= speed;
+  // Apply dead zone, acceleration curve and speed multiplier
+  const x = applyTransfer(headPos.x, curve, deadZone, speed * (transfer.gainX ?? 1));
+  const y = applyTransfer(headPos.y, curve, deadZone, speed * (transfer.gainY ?? 1));
 
   // Convert to screen coordinates (0 to 1 range)
   const screenX = (x + 1) / 2;
@@ -149,6 +328,84 @@ export function headPositionToScreen(
   };
 }
 
+// Relative cursor: head deflection beyond the dead zone pushes the cursor,
+// so a small range of motion can still reach every corner of the screen
+export class JoystickCursor {
+  private x = 0.5;
+  private y = 0.5;
+  private lastTimestamp: number | null = null;
+  private readonly MAX_SPEED = 0.8; // screen widths per second at full deflection and speed 1
+  private readonly MAX_FRAME_GAP = 100; // ms - avoid jumps after dropped frames
+
+  // Start moving from a given position (e.g. where the cursor was before)
+  setPosition(x: number, y: number): void {
+    this.x = x;
+    this.y = y;
+    this.lastTimestamp = null;
+  }
+
+  update(
+    headPos: Pick<HeadPosition, 'x' | 'y'>,
+    timestamp: number,
+    speed: number = 1.5,
+    deadZone: number = 0.05,
+    transfer: CursorTransferOptions = {}
+  ): { x: number; y: number } {
+    const dt = this.lastTimestamp === null
+      ? 0
+      : Math.min(this.MAX_FRAME_GAP, Math.max(0, timestamp - this.lastTimestamp)) / 1000;
+    this.lastTimestamp = timestamp;
+
+    const curve = transfer.curve ?? DEFAULT_TRANSFER_CURVE;
+    const velocityX = applyTransfer(headPos.x, curve, deadZone, speed * (transfer.gainX ?? 1)) * this.MAX_SPEED;
+    const velocityY = applyTransfer(headPos.y, curve, deadZone, speed * (transfer.gainY ?? 1)) * this.MAX_SPEED;
+
+    this.x = Math.max(0, Math.min(1, this.x + velocityX * dt));
+    this.y = Math.max(0, Math.min(1, this.y + velocityY * dt));
+
+    return { x: this.x, y: this.y };
+  }
+}
+
+// Scroll mode: nodding up or down past the dead zone scrolls at a rate
+// proportional to the deflection; returns whole wheel notches to send
+export class HeadScroller {
+  private accumulated = 0;
+  private lastTimestamp: number | null = null;
+  private readonly MAX_RATE = 8; // wheel notches per second at full deflection and speed 1
+  private readonly MAX_FRAME_GAP = 100; // ms
+
+  update(
+    headPos: Pick<HeadPosition, 'y'>,
+    timestamp: number,
+    speed: number = 1.5,
+    deadZone: number = 0.05,
+    transfer: CursorTransferOptions = {}
+  ): number {
+    const dt = this.lastTimestamp === null
+      ? 0
+      : Math.min(this.MAX_FRAME_GAP, Math.max(0, timestamp - this.lastTimestamp)) / 1000;
+    this.lastTimestamp = timestamp;
+
+    const curve = transfer.curve ?? DEFAULT_TRANSFER_CURVE;
+    const rate = applyTransfer(headPos.y, curve, deadZone, speed * (transfer.gainY ?? 1)) * this.MAX_RATE;
+    if (rate === 0) {
+      this.accumulated = 0;
+      return 0;
+    }
+
+    this.accumulated += rate * dt;
+    const notches = Math.trunc(this.accumulated);
+    this.accumulated -= notches;
+    return notches;
+  }
+
+  reset(): void {
+    this.accumulated = 0;
+    this.lastTimestamp = null;
+  }
+}
+
 // Check if head is in neutral position (for calibration)
 export function isHeadNeutral(headPos: HeadPosition, threshold: number = 0.1): boolean {
   return (
@@ -0,0 +1,206 @@
+// Landmark stream recording and replay for AccessMate
+// Recordings are JSONL: a header line followed by one line per face/hand frame
+
+import type { Handedness } from '@mediapipe/hands';
+import type { Landmark } from './blinkDetection';
+import type { HandLandmark } from './fingerCounting';
+import type { FaceFrame, HandFrame, LandmarkHandlers, LandmarkSource } from './landmarkSource';
+
+const RECORDING_VERSION = 1;
+const COORDINATE_PRECISION = 1e5;
+
+export interface RecordingHeader {
+  kind: 'header';
+  version: number;
+  createdAt: number;
+}
+
+export interface RecordedFaceFrame {
+  kind: 'face';
+  t: number; // capture timestamp, ms
+  multiFaceLandmarks: Landmark[][];
+}
+
+export interface RecordedHandFrame {
+  kind: 'hands';
+  t: number; // capture timestamp, ms
+  multiHandLandmarks: HandLandmark[][];
+  multiHandedness: Handedness[];
+}
+
+export type RecordedFrame = RecordedFaceFrame | RecordedHandFrame;
+
+export interface LandmarkRecording {
+  header: RecordingHeader;
+  frames: RecordedFrame[];
+}
+
+function roundLandmarks(landmarks: Landmark[]): Landmark[] {
+  return landmarks.map(({ x, y, z }) => ({
+    x: Math.round(x * COORDINATE_PRECISION) / COORDINATE_PRECISION,
+    y: Math.round(y * COORDINATE_PRECISION) / COORDINATE_PRECISION,
+    z: Math.round(z * COORDINATE_PRECISION) / COORDINATE_PRECISION,
+  }));
+}
+
+export class LandmarkRecorder {
+  private frames: RecordedFrame[] = [];
+  private createdAt: number = 0;
+  private recording = false;
+
+  start(): void {
+    this.frames = [];
+    this.createdAt = Date.now();
+    this.recording = true;
+  }
+
+  stop(): LandmarkRecording {
+    this.recording = false;
+    return {
+      header: { kind: 'header', version: RECORDING_VERSION, createdAt: this.createdAt },
+      frames: this.frames,
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  recordFace(frame: FaceFrame, timestamp: number): void {
+    if (!this.recording) return;
+    this.frames.push({
+      kind: 'face',
+      t: timestamp,
+      multiFaceLandmarks: (frame.multiFaceLandmarks ?? []).map(roundLandmarks),
+    });
+  }
+
+  recordHands(frame: HandFrame, timestamp: number): void {
+    if (!this.recording) return;
+    this.frames.push({
+      kind: 'hands',
+      t: timestamp,
+      multiHandLandmarks: (frame.multiHandLandmarks ?? []).map(roundLandmarks),
+      multiHandedness: (frame.multiHandedness ?? []).map(({ index, score, label }) => ({ index, score, label })),
+    });
+  }
+}
+
+export function serializeRecording(recording: LandmarkRecording): string {
+  return [recording.header, ...recording.frames].map((line) => JSON.stringify(line)).join('\n') + '\n';
+}
+
+export function parseRecording(text: string): LandmarkRecording {
+  const lines = text.split('\n').filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Recording is empty');
+  }
+
+  const header = JSON.parse(lines[0]) as RecordingHeader;
+  if (header.kind !== 'header') {
+    throw new Error('Recording is missing its header line');
+  }
+  if (header.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${header.version}`);
+  }
+
+  const frames = lines.slice(1).map((line, i) => {
+    const frame = JSON.parse(line) as RecordedFrame;
+    if ((frame.kind !== 'face' && frame.kind !== 'hands') || typeof frame.t !== 'number') {
+      throw new Error(`Invalid frame on line ${i + 2}`);
+    }
+    return frame;
+  });
+
+  // Face and hand frames of the same capture may be written out of order
+  frames.sort((a, b) => a.t - b.t);
+
+  return { header, frames };
+}
+
+// Trigger a browser download of the recording as a .jsonl file
+export function downloadRecording(recording: LandmarkRecording, filename?: string): void {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/x-ndjson' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename ?? `accessmate-${new Date(recording.header.createdAt).toISOString().replace(/[:.]/g, '-')}.jsonl`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export interface ReplayOptions {
+  speed?: number; // 1 = real time, 2 = twice as fast, ...
+  onEnd?: () => void;
+}
+
+// Feeds a recording back through the landmark handlers, preserving the
+// recorded timestamps so detectors behave exactly as they did live
+export class ReplayLandmarkSource implements LandmarkSource {
+  readonly kind = 'replay';
+  private recording: LandmarkRecording;
+  private handlers: LandmarkHandlers;
+  private speed: number;
+  private onEnd?: () => void;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+  private startedAt = 0;
+
+  constructor(recording: LandmarkRecording, handlers: LandmarkHandlers, options: ReplayOptions = {}) {
+    this.recording = recording;
+    this.handlers = handlers;
+    this.speed = Math.max(0.1, options.speed ?? 1);
+    this.onEnd = options.onEnd;
+  }
+
+  async start(): Promise<void> {
+    this.stop();
+    this.index = 0;
+    this.startedAt = performance.now();
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getProgress(): number {
+    const total = this.recording.frames.length;
+    return total > 0 ? this.index / total : 1;
+  }
+
+  private scheduleNext(): void {
+    const { frames } = this.recording;
+    const frame = frames[this.index];
+    if (!frame) {
+      this.timer = null;
+      this.onEnd?.();
+      return;
+    }
+
+    const due = this.startedAt + (frame.t - frames[0].t) / this.speed;
+    this.timer = setTimeout(() => {
+      this.dispatch(frame);
+      this.index++;
+      this.scheduleNext();
+    }, Math.max(0, due - performance.now()));
+  }
+
+  private dispatch(frame: RecordedFrame): void {
+    if (frame.kind === 'face') {
+      this.handlers.onFace({ multiFaceLandmarks: frame.multiFaceLandmarks }, frame.t);
+    } else {
+      this.handlers.onHands({
+        multiHandLandmarks: frame.multiHandLandmarks,
+        multiHandedness: frame.multiHandedness,
+      }, frame.t);
+    }
+  }
+}
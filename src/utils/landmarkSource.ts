@@ -0,0 +1,99 @@
+import { FaceMesh, type Results as FaceResults } from '@mediapipe/face_mesh';
+import { Hands, type Results as HandsResults } from '@mediapipe/hands';
+import { Camera } from '@mediapipe/camera_utils';
+
+// The parts of the MediaPipe results the control pipeline actually consumes.
+// Live and replayed frames both satisfy these, so detectors never see the difference.
+export type FaceFrame = Pick<FaceResults, 'multiFaceLandmarks'>;
+export type HandFrame = Pick<HandsResults, 'multiHandLandmarks' | 'multiHandedness'>;
+
+export interface LandmarkHandlers {
+  onFace: (frame: FaceFrame, timestamp: number) => void;
+  onHands: (frame: HandFrame, timestamp: number) => void;
+}
+
+export type LandmarkSourceKind = 'camera' | 'replay';
+
+// A producer of face/hand landmark frames (webcam, recording, ...)
+export interface LandmarkSource {
+  readonly kind: LandmarkSourceKind;
+  start(): Promise<void>;
+  stop(): void;
+}
+
+// Live webcam source running FaceMesh and Hands on every camera frame
+export class CameraLandmarkSource implements LandmarkSource {
+  readonly kind = 'camera';
+  private video: HTMLVideoElement;
+  private handlers: LandmarkHandlers;
+  private faceMesh: FaceMesh | null = null;
+  private hands: Hands | null = null;
+  private camera: Camera | null = null;
+  private frameTimestamp = 0;
+
+  constructor(video: HTMLVideoElement, handlers: LandmarkHandlers) {
+    this.video = video;
+    this.handlers = handlers;
+  }
+
+  async start(): Promise<void> {
+    const faceMesh = new FaceMesh({
+      locateFile: (file) => `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`,
+    });
+
+    faceMesh.setOptions({
+      maxNumFaces: 1,
+      refineLandmarks: true,
+      minDetectionConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+
+    faceMesh.onResults((results) => this.handlers.onFace(results, this.frameTimestamp));
+    this.faceMesh = faceMesh;
+
+    const hands = new Hands({
+      locateFile: (file) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
+    });
+
+    hands.setOptions({
+      maxNumHands: 2,
+      modelComplexity: 1,
+      minDetectionConfidence: 0.6,
+      minTrackingConfidence: 0.5,
+    });
+
+    hands.onResults((results) => this.handlers.onHands(results, this.frameTimestamp));
+    this.hands = hands;
+
+    const camera = new Camera(this.video, {
+      onFrame: async () => {
+        if (this.faceMesh && this.hands) {
+          // Both models see the same frame, so they share its capture time
+          this.frameTimestamp = performance.now();
+          await this.faceMesh.send({ image: this.video });
+          await this.hands.send({ image: this.video });
+        }
+      },
+      width: 640,
+      height: 480,
+    });
+
+    this.camera = camera;
+    await camera.start();
+  }
+
+  stop(): void {
+    if (this.camera) {
+      this.camera.stop();
+      this.camera = null;
+    }
+    if (this.faceMesh) {
+      this.faceMesh.close();
+      this.faceMesh = null;
+    }
+    if (this.hands) {
+      this.hands.close();
+      this.hands = null;
+    }
+  }
+}
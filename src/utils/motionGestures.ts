@@ -0,0 +1,157 @@
+// Motion gesture recognition for AccessMate
+// Buffers hand positions over time and detects swipes, circles and push / pull
+// movements, which fire as soon as the movement completes (no hold needed)
+
+import type { HandLandmark } from './fingerCounting';
+
+export type MotionGestureType =
+  | 'swipeLeft'
+  | 'swipeRight'
+  | 'swipeUp'
+  | 'swipeDown'
+  | 'circleClockwise'
+  | 'circleCounterClockwise'
+  | 'push'
+  | 'pull';
+
+interface MotionSample {
+  x: number; // palm centre
+  y: number;
+  tipX: number; // index fingertip
+  tipY: number;
+  scale: number; // apparent palm size, grows as the hand nears the camera
+  timestamp: number;
+}
+
+const WRIST = 0;
+const INDEX_MCP = 5;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+
+export class MotionGestureRecognizer {
+  private samples: MotionSample[] = [];
+  private lastGestureTime: number = -Infinity;
+  private readonly BUFFER_DURATION = 1500; // ms - long enough for a slow circle
+  private readonly SWIPE_DURATION = 500; // ms - a swipe must cover its distance within this
+  private readonly SWIPE_DISTANCE = 2.5; // palm sizes
+  private readonly SWIPE_AXIS_RATIO = 2; // main axis travel vs the other axis
+  private readonly PUSH_SCALE = 1.35; // palm size change for a push / pull
+  private readonly PUSH_MAX_DRIFT = 1; // palm sizes of sideways travel allowed during a push
+  private readonly CIRCLE_MIN_TURN = Math.PI * 1.7; // nearly a full turn
+  private readonly CIRCLE_MIN_RADIUS = 0.5; // palm sizes
+  private readonly COOLDOWN = 600; // ms - after a motion, so its return stroke is not a second one
+  private readonly MIN_SAMPLES = 5;
+
+  // Add a frame; returns the motion gesture it completes, if any
+  update(landmarks: HandLandmark[], timestamp: number): MotionGestureType | null {
+    const palm = [landmarks[WRIST], landmarks[INDEX_MCP], landmarks[PINKY_MCP]];
+    this.samples.push({
+      x: palm.reduce((sum, p) => sum + p.x, 0) / palm.length,
+      y: palm.reduce((sum, p) => sum + p.y, 0) / palm.length,
+      tipX: landmarks[INDEX_TIP].x,
+      tipY: landmarks[INDEX_TIP].y,
+      scale: Math.hypot(landmarks[WRIST].x - landmarks[MIDDLE_MCP].x, landmarks[WRIST].y - landmarks[MIDDLE_MCP].y),
+      timestamp,
+    });
+    while (this.samples.length > 0 && timestamp - this.samples[0].timestamp > this.BUFFER_DURATION) {
+      this.samples.shift();
+    }
+
+    if (timestamp - this.lastGestureTime < this.COOLDOWN || this.samples.length < this.MIN_SAMPLES) {
+      return null;
+    }
+
+    const gesture = this.detectSwipe(timestamp) ?? this.detectPush(timestamp) ?? this.detectCircle();
+    if (gesture) {
+      this.lastGestureTime = timestamp;
+      this.samples = [];
+    }
+    return gesture;
+  }
+
+  private recent(timestamp: number, duration: number): MotionSample[] {
+    return this.samples.filter((sample) => timestamp - sample.timestamp <= duration);
+  }
+
+  private averageScale(samples: MotionSample[]): number {
+    return samples.reduce((sum, sample) => sum + sample.scale, 0) / samples.length;
+  }
+
+  private detectSwipe(timestamp: number): MotionGestureType | null {
+    const stroke = this.recent(timestamp, this.SWIPE_DURATION);
+    if (stroke.length < this.MIN_SAMPLES) return null;
+
+    const scale = this.averageScale(stroke);
+    const first = stroke[0];
+    const last = stroke[stroke.length - 1];
+    const dx = (last.x - first.x) / scale;
+    const dy = (last.y - first.y) / scale;
+
+    // The camera image is not mirrored, so moving to the user's right is towards smaller x
+    if (Math.abs(dx) >= this.SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy) * this.SWIPE_AXIS_RATIO) {
+      return dx < 0 ? 'swipeRight' : 'swipeLeft';
+    }
+    if (Math.abs(dy) >= this.SWIPE_DISTANCE && Math.abs(dy) > Math.abs(dx) * this.SWIPE_AXIS_RATIO) {
+      return dy < 0 ? 'swipeUp' : 'swipeDown';
+    }
+    return null;
+  }
+
+  // Landmark z is relative to the wrist, so depth comes from the apparent palm size
+  private detectPush(timestamp: number): MotionGestureType | null {
+    const stroke = this.recent(timestamp, this.SWIPE_DURATION);
+    if (stroke.length < this.MIN_SAMPLES) return null;
+
+    const first = stroke[0];
+    const last = stroke[stroke.length - 1];
+    const drift = Math.hypot(last.x - first.x, last.y - first.y) / this.averageScale(stroke);
+    if (drift > this.PUSH_MAX_DRIFT) return null;
+
+    const ratio = last.scale / first.scale;
+    if (ratio >= this.PUSH_SCALE) return 'push';
+    if (ratio <= 1 / this.PUSH_SCALE) return 'pull';
+    return null;
+  }
+
+  // Sum the fingertip's turning around the path centre
+  private detectCircle(): MotionGestureType | null {
+    const samples = this.samples;
+    const centerX = samples.reduce((sum, s) => sum + s.tipX, 0) / samples.length;
+    const centerY = samples.reduce((sum, s) => sum + s.tipY, 0) / samples.length;
+    const radius = samples.reduce((sum, s) => sum + Math.hypot(s.tipX - centerX, s.tipY - centerY), 0) / samples.length;
+    if (radius / this.averageScale(samples) < this.CIRCLE_MIN_RADIUS) return null;
+
+    let turn = 0;
+    let previous = Math.atan2(samples[0].tipY - centerY, samples[0].tipX - centerX);
+    for (let i = 1; i < samples.length; i++) {
+      const angle = Math.atan2(samples[i].tipY - centerY, samples[i].tipX - centerX);
+      let delta = angle - previous;
+      if (delta > Math.PI) delta -= Math.PI * 2;
+      if (delta < -Math.PI) delta += Math.PI * 2;
+      turn += delta;
+      previous = angle;
+    }
+
+    if (Math.abs(turn) < this.CIRCLE_MIN_TURN) return null;
+    // With y pointing down a positive turn is clockwise in the image, which is
+    // counter-clockwise from the user's side of the camera
+    return turn > 0 ? 'circleCounterClockwise' : 'circleClockwise';
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.lastGestureTime = -Infinity;
+  }
+}
+
+export const MOTION_GESTURES: MotionGestureType[] = [
+  'swipeLeft',
+  'swipeRight',
+  'swipeUp',
+  'swipeDown',
+  'circleClockwise',
+  'circleCounterClockwise',
+  'push',
+  'pull',
+];
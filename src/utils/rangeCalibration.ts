@@ -0,0 +1,286 @@
+// Head range calibration for AccessMate
+// Measures how far the user can comfortably turn their head each way, and optionally
+// where they point for a 3x3 grid of screen targets, so each user's own range of
+// motion covers the whole screen
+
+import {
+  averageHeadPose,
+  gridFitTerms,
+  normalizeHeadPose,
+  type CalibrationData,
+  type GridFit,
+  type RawHeadPose,
+} from './headTracking';
+
+export type RangeDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface GridPoint {
+  x: number; // -1 (left edge) to 1 (right edge)
+  y: number; // -1 (top edge) to 1 (bottom edge)
+}
+
+export interface RangeCalibrationProgress {
+  progress: number; // 0..1 - towards a usable extreme, or through holding on a grid point
+  done: boolean;
+}
+
+type RangeCalibrationListener = (progress: RangeCalibrationProgress) => void;
+
+type Target = { kind: 'extent'; direction: RangeDirection } | { kind: 'point'; point: GridPoint };
+
+// Screen edges, corners and centre, row by row
+export const GRID_POINTS: GridPoint[] = [-1, 0, 1].flatMap((y) => [-1, 0, 1].map((x) => ({ x, y })));
+
+// Least-squares quadratic through (x, y) -> value samples; null if the samples don't pin it down
+function fitQuadratic(samples: { x: number; y: number; value: number }[]): number[] | null {
+  const size = gridFitTerms(0, 0).length;
+  if (samples.length < size) return null;
+
+  // Normal equations: (A^T A) c = A^T b, solved by Gaussian elimination with partial pivoting
+  const matrix = Array.from({ length: size }, () => new Array<number>(size + 1).fill(0));
+  for (const sample of samples) {
+    const terms = gridFitTerms(sample.x, sample.y);
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) matrix[row][col] += terms[row] * terms[col];
+      matrix[row][size] += terms[row] * sample.value;
+    }
+  }
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-9) return null;
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k <= size; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+  return matrix.map((row, i) => row[size] / row[i]);
+}
+
+export class RangeCalibrator {
+  private base: CalibrationData | null = null;
+  private center: RawHeadPose | null = null;
+  private target: Target | null = null;
+  private samples: { pose: RawHeadPose; timestamp: number }[] = [];
+  private best: { deflection: number; pose: RawHeadPose } | null = null;
+  private extents: Partial<Record<RangeDirection, RawHeadPose>> = {};
+  private points: { point: GridPoint; pose: RawHeadPose }[] = [];
+  private lastProgress: RangeCalibrationProgress | null = null;
+  private listeners = new Set<RangeCalibrationListener>();
+  private readonly HOLD_TIME = 300; // ms an extreme must be held, so overshooting it doesn't count
+  private readonly MIN_DEFLECTION = 0.05; // radians - smaller turns aren't a usable range
+  private readonly RETURN_RATIO = 0.4; // coming back within this fraction of the extreme finishes a direction
+  private readonly STEADY_TIME = 800; // ms the head must stay put on a grid point
+  private readonly STEADY_SPREAD = 0.02; // radians of wobble allowed while staying put
+  private readonly MIN_NOSE_RANGE = 0.02; // image widths
+  private readonly MIN_POINT_REACH = 0.3; // of the range each way - towards a grid point before holding counts
+  private readonly OFF_AXIS_LIMIT = 0.5; // of the range - on an axis where the point is centred
+
+  subscribe(listener: RangeCalibrationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Start a new calibration around the freshly calibrated centre
+  begin(calibration: CalibrationData): void {
+    this.base = calibration;
+    this.center = {
+      yaw: calibration.centerYaw,
+      pitch: calibration.centerPitch,
+      noseX: calibration.centerX,
+      noseY: calibration.centerY,
+    };
+    this.extents = {};
+    this.points = [];
+    this.stop();
+  }
+
+  measureExtent(direction: RangeDirection): void {
+    this.startTarget({ kind: 'extent', direction });
+  }
+
+  measurePoint(point: GridPoint): void {
+    this.startTarget({ kind: 'point', point });
+  }
+
+  private startTarget(target: Target): void {
+    this.target = target;
+    this.samples = [];
+    this.best = null;
+    this.lastProgress = null;
+  }
+
+  isActive(): boolean {
+    return this.target !== null && this.center !== null;
+  }
+
+  update(pose: RawHeadPose, timestamp: number): void {
+    if (!this.target || !this.center) return;
+    const progress = this.target.kind === 'extent'
+      ? this.updateExtent(this.target.direction, pose, timestamp)
+      : this.updatePoint(this.target.point, pose, timestamp);
+
+    // Only tell listeners about visible changes
+    const rounded = { progress: Math.round(progress.progress * 20) / 20, done: progress.done };
+    if (rounded.progress === this.lastProgress?.progress && rounded.done === this.lastProgress.done) return;
+    this.lastProgress = rounded;
+    this.listeners.forEach((listener) => listener(rounded));
+  }
+
+  // The furthest point held for a moment; done once the head comes back towards the centre
+  private updateExtent(direction: RangeDirection, pose: RawHeadPose, timestamp: number): RangeCalibrationProgress {
+    this.samples.push({ pose, timestamp });
+    this.samples = this.samples.filter((sample) => timestamp - sample.timestamp <= this.HOLD_TIME);
+
+    if (timestamp - this.samples[0].timestamp >= this.HOLD_TIME * 0.8) {
+      const held = Math.min(...this.samples.map((sample) => this.deflection(direction, sample.pose)));
+      if (held > (this.best?.deflection ?? 0)) {
+        this.best = { deflection: held, pose: averageHeadPose(this.samples.map((sample) => sample.pose)) };
+      }
+    }
+
+    const reached = (this.best?.deflection ?? 0) >= this.MIN_DEFLECTION;
+    if (this.best && reached && this.deflection(direction, pose) <= this.best.deflection * this.RETURN_RATIO) {
+      this.confirm();
+      return { progress: 1, done: true };
+    }
+    return { progress: Math.min(1, (this.best?.deflection ?? 0) / this.MIN_DEFLECTION), done: false };
+  }
+
+  // Done once the head has stayed put on the target long enough
+  private updatePoint(point: GridPoint, pose: RawHeadPose, timestamp: number): RangeCalibrationProgress {
+    // Still resting on the previous point - the head has to move to the new one first
+    const previous = this.points[this.points.length - 1]?.pose;
+    if ((previous && this.isNear(pose, previous)) || !this.isTowards(point, pose)) {
+      this.samples = [];
+      return { progress: 0, done: false };
+    }
+
+    const first = this.samples[0]?.pose;
+    if (!first || !this.isNear(pose, first)) this.samples = [];
+    this.samples.push({ pose, timestamp });
+
+    const heldFor = timestamp - this.samples[0].timestamp;
+    if (heldFor >= this.STEADY_TIME) {
+      this.points.push({ point, pose: averageHeadPose(this.samples.map((sample) => sample.pose)) });
+      this.target = null;
+      return { progress: 1, done: true };
+    }
+    return { progress: heldFor / this.STEADY_TIME, done: false };
+  }
+
+  // Turned from the centre the way of the point on each axis, by a good part of the
+  // range measured that way, so resting anywhere else can't stand in for it
+  private isTowards(point: GridPoint, pose: RawHeadPose): boolean {
+    if (!this.base) return true;
+    const position = normalizeHeadPose(pose, this.withRanges(this.base));
+    const onAxis = (target: number, value: number) =>
+      target === 0
+        ? Math.abs(value) <= this.OFF_AXIS_LIMIT
+        : Math.sign(value) === Math.sign(target) && Math.abs(value) >= this.MIN_POINT_REACH;
+    return onAxis(point.x, position.x) && onAxis(point.y, position.y);
+  }
+
+  private isNear(a: RawHeadPose, b: RawHeadPose): boolean {
+    return Math.abs(a.yaw - b.yaw) <= this.STEADY_SPREAD && Math.abs(a.pitch - b.pitch) <= this.STEADY_SPREAD;
+  }
+
+  // How far the head is turned towards the direction from the centre. The camera is
+  // not mirrored, so turning to the user's right lowers yaw; pitch grows downwards
+  private deflection(direction: RangeDirection, pose: RawHeadPose): number {
+    const center = this.center!;
+    switch (direction) {
+      case 'right': return center.yaw - pose.yaw;
+      case 'left': return pose.yaw - center.yaw;
+      case 'down': return pose.pitch - center.pitch;
+      case 'up': return center.pitch - pose.pitch;
+    }
+  }
+
+  // Accept the extreme measured so far (if usable) and stop measuring
+  confirm(): void {
+    if (this.target?.kind === 'extent' && this.best && this.best.deflection >= this.MIN_DEFLECTION) {
+      this.extents[this.target.direction] = this.best.pose;
+    }
+    this.stop();
+  }
+
+  stop(): void {
+    this.target = null;
+    this.samples = [];
+    this.best = null;
+  }
+
+  // The calibration with each measured range, and the grid fit when enough points were
+  // measured. Directions that weren't measured keep their current range
+  createCalibration(current: CalibrationData): CalibrationData {
+    if (!this.center) return current;
+    const calibration = this.withRanges(current);
+
+    // A grid fitted to the old ranges no longer lines up with the new ones
+    if (Object.keys(this.extents).length > 0) {
+      calibration.rotationFit = null;
+      calibration.noseFit = null;
+    }
+    if (this.points.length > 0) {
+      const scaled = this.points.map(({ point, pose }) => ({ point, position: normalizeHeadPose(pose, calibration) }));
+      calibration.rotationFit = this.fitGrid(scaled.map(({ point, position }) => ({ point, x: position.x, y: position.y })));
+      calibration.noseFit = this.fitGrid(scaled.map(({ point, position }) => ({ point, x: position.noseX, y: position.noseY })));
+    }
+    return calibration;
+  }
+
+  private withRanges(current: CalibrationData): CalibrationData {
+    const center = this.center;
+    if (!center) return current;
+
+    const rotationRange = (direction: RangeDirection, fallback: number): number => {
+      const extent = this.extents[direction];
+      return extent ? Math.max(this.MIN_DEFLECTION, this.deflection(direction, extent)) : fallback;
+    };
+    // The nose moves the way the head turns: towards smaller x for the user's right, larger y down
+    const noseRange = (direction: RangeDirection, fallback: number): number => {
+      const extent = this.extents[direction];
+      if (!extent) return fallback;
+      const offset = {
+        right: center.noseX - extent.noseX,
+        left: extent.noseX - center.noseX,
+        down: extent.noseY - center.noseY,
+        up: center.noseY - extent.noseY,
+      }[direction];
+      return Math.max(this.MIN_NOSE_RANGE, offset);
+    };
+
+    const calibration: CalibrationData = {
+      ...current,
+      rangeYawLeft: rotationRange('left', current.rangeYawLeft),
+      rangeYawRight: rotationRange('right', current.rangeYawRight),
+      rangePitchUp: rotationRange('up', current.rangePitchUp),
+      rangePitchDown: rotationRange('down', current.rangePitchDown),
+      rangeXLeft: noseRange('left', current.rangeXLeft),
+      rangeXRight: noseRange('right', current.rangeXRight),
+      rangeYUp: noseRange('up', current.rangeYUp),
+      rangeYDown: noseRange('down', current.rangeYDown),
+    };
+    calibration.rangeYaw = (calibration.rangeYawLeft + calibration.rangeYawRight) / 2;
+    calibration.rangePitch = (calibration.rangePitchUp + calibration.rangePitchDown) / 2;
+    calibration.rangeX = (calibration.rangeXLeft + calibration.rangeXRight) / 2;
+    calibration.rangeY = (calibration.rangeYUp + calibration.rangeYDown) / 2;
+    return calibration;
+  }
+
+  private fitGrid(samples: { point: GridPoint; x: number; y: number }[]): GridFit | null {
+    const x = fitQuadratic(samples.map((sample) => ({ x: sample.x, y: sample.y, value: sample.point.x })));
+    const y = fitQuadratic(samples.map((sample) => ({ x: sample.x, y: sample.y, value: sample.point.y })));
+    return x && y ? { x, y } : null;
+  }
+}
+
+// Export singleton instance
+export const rangeCalibrator = new RangeCalibrator();
@@ -0,0 +1,166 @@
+// Smoothing filters for tracked head/nose positions
+// All filters take the frame capture timestamp (ms) so they behave the same at any frame rate
+
+export type SmoothingFilterType = 'exponential' | 'oneEuro' | 'kalman';
+
+export interface SmoothingFilterConfig {
+  type: SmoothingFilterType;
+  smoothing: number; // exponential: weight of the previous value, 0 to 1
+  minCutoff: number; // One Euro: cutoff frequency when still, Hz
+  beta: number; // One Euro: how quickly the cutoff rises with speed
+  processNoise: number; // Kalman: expected acceleration noise
+  measurementNoise: number; // Kalman: expected landmark jitter (variance)
+}
+
+export const DEFAULT_FILTER_CONFIG: SmoothingFilterConfig = {
+  type: 'oneEuro',
+  smoothing: 0.7,
+  minCutoff: 1.0,
+  beta: 1.5,
+  processNoise: 20,
+  measurementNoise: 0.0005,
+};
+
+export interface ScalarFilter {
+  filter(value: number, timestamp: number): number;
+  reset(): void;
+}
+
+// Fixed-weight exponential smoothing (the original behaviour)
+export class ExponentialFilter implements ScalarFilter {
+  private smoothing: number;
+  private value: number | null = null;
+
+  constructor(smoothing: number) {
+    this.smoothing = Math.max(0, Math.min(1, smoothing));
+  }
+
+  filter(value: number): number {
+    this.value = this.value === null
+      ? value
+      : this.value * this.smoothing + value * (1 - this.smoothing);
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+  }
+}
+
+// One Euro filter (Casiez et al. 2012): heavy smoothing when still,
+// cutoff rises with speed so fast moves have little lag
+export class OneEuroFilter implements ScalarFilter {
+  private minCutoff: number;
+  private beta: number;
+  private readonly DERIVATIVE_CUTOFF = 1.0; // Hz
+
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTimestamp = 0;
+
+  constructor(minCutoff: number, beta: number) {
+    this.minCutoff = Math.max(0.01, minCutoff);
+    this.beta = Math.max(0, beta);
+  }
+
+  private alpha(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+
+  filter(value: number, timestamp: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+    if (dt <= 0) return this.value;
+    this.lastTimestamp = timestamp;
+
+    const rawDerivative = (value - this.value) / dt;
+    const derivativeAlpha = this.alpha(this.DERIVATIVE_CUTOFF, dt);
+    this.derivative = this.derivative + derivativeAlpha * (rawDerivative - this.derivative);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    this.value = this.value + this.alpha(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+    this.derivative = 0;
+  }
+}
+
+// Constant-velocity Kalman filter over [position, velocity]
+export class KalmanFilter implements ScalarFilter {
+  private processNoise: number;
+  private measurementNoise: number;
+
+  private position: number | null = null;
+  private velocity = 0;
+  // Covariance matrix [[p00, p01], [p01, p11]]
+  private p00 = 1;
+  private p01 = 0;
+  private p11 = 1;
+  private lastTimestamp = 0;
+
+  constructor(processNoise: number, measurementNoise: number) {
+    this.processNoise = Math.max(0, processNoise);
+    this.measurementNoise = Math.max(1e-9, measurementNoise);
+  }
+
+  filter(value: number, timestamp: number): number {
+    if (this.position === null) {
+      this.position = value;
+      this.velocity = 0;
+      this.p00 = this.measurementNoise;
+      this.p01 = 0;
+      this.p11 = 1;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = Math.max(0, (timestamp - this.lastTimestamp) / 1000);
+    this.lastTimestamp = timestamp;
+
+    // Predict: x = F x, P = F P F' + Q (white-noise acceleration model)
+    this.position += this.velocity * dt;
+    const q = this.processNoise;
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + q * Math.pow(dt, 4) / 4;
+    const p01 = this.p01 + dt * this.p11 + q * Math.pow(dt, 3) / 2;
+    const p11 = this.p11 + q * dt * dt;
+
+    // Update with the measured position
+    const innovation = value - this.position;
+    const s = p00 + this.measurementNoise;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+
+    this.position += k0 * innovation;
+    this.velocity += k1 * innovation;
+    this.p00 = (1 - k0) * p00;
+    this.p01 = (1 - k0) * p01;
+    this.p11 = p11 - k1 * p01;
+
+    return this.position;
+  }
+
+  reset(): void {
+    this.position = null;
+    this.velocity = 0;
+  }
+}
+
+export function createFilter(config: SmoothingFilterConfig): ScalarFilter {
+  switch (config.type) {
+    case 'oneEuro':
+      return new OneEuroFilter(config.minCutoff, config.beta);
+    case 'kalman':
+      return new KalmanFilter(config.processNoise, config.measurementNoise);
+    default:
+      return new ExponentialFilter(config.smoothing);
+  }
+}
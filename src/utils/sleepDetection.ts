@@ -3,8 +3,8 @@ import { type Landmark, areEyesClosed } from './blinkDetection';
 export interface SleepDetectionResult {
   isSleeping: boolean;
   sleepScore: number; // 0-100 confidence score
-  eyeClosedDuration: number; // frames
-  headDownDuration: number; // frames
+  eyeClosedDuration: number; // ms
+  headDownDuration: number; // ms
   isHeadDown: boolean;
   headPitch: number;
 }
@@ -23,41 +23,47 @@ const LEFT_EYE_OUTER = 33;
 const RIGHT_EYE_OUTER = 263;
 
 export class SleepDetector {
-  private eyeClosedFrames = 0;
-  private headDownFrames = 0;
-  private readonly EYE_CLOSED_THRESHOLD = 45; // frames (~1.5s at 30fps)
-  private readonly HEAD_DOWN_THRESHOLD = 30; // frames (~1s at 30fps)
-  private readonly PITCH_THRESHOLD = 0.25; // radians (~14 degrees)
+  private eyeClosedTime = 0; // ms
+  private headDownTime = 0; // ms
+  private lastFrameTime: number | null = null;
+  private eyeClosedThreshold = 1500; // ms
+  private headDownThreshold = 1000; // ms
+  private pitchThreshold = 0.25; // radians (~14 degrees)
   private readonly EAR_THRESHOLD = 0.21;
+  private readonly MAX_FRAME_GAP = 500; // ms - longer gaps (dropped frames, paused replay) don't count
 
   private sleepStartTime: number | null = null;
   private totalSleepDuration = 0;
 
-  detect(landmarks: Landmark[]): SleepDetectionResult {
-    const currentTime = Date.now();
+  detect(landmarks: Landmark[], timestamp: number): SleepDetectionResult {
+    const currentTime = timestamp;
+    const elapsed = this.lastFrameTime === null
+      ? 0
+      : Math.min(this.MAX_FRAME_GAP, Math.max(0, currentTime - this.lastFrameTime));
+    this.lastFrameTime = currentTime;
 
     const eyesClosed = areEyesClosed(landmarks, this.EAR_THRESHOLD);
     const headPose = this.calculateHeadPose(landmarks);
-    const isHeadDown = headPose.pitch > this.PITCH_THRESHOLD;
+    const isHeadDown = headPose.pitch > this.pitchThreshold;
 
-    // Update eye closed counter
+    // Update eye closed timer
     if (eyesClosed) {
-      this.eyeClosedFrames++;
+      this.eyeClosedTime += elapsed;
     } else {
-      this.eyeClosedFrames = Math.max(0, this.eyeClosedFrames - 2); // Decay faster
+      this.eyeClosedTime = Math.max(0, this.eyeClosedTime - elapsed * 2); // Decay faster
     }
 
-    // Update head down counter
+    // Update head down timer
     if (isHeadDown) {
-      this.headDownFrames++;
+      this.headDownTime += elapsed;
     } else {
-      this.headDownFrames = Math.max(0, this.headDownFrames - 2);
+      this.headDownTime = Math.max(0, this.headDownTime - elapsed * 2);
     }
 
     // Determine if sleeping
-    const eyesFactor = this.eyeClosedFrames >= this.EYE_CLOSED_THRESHOLD;
-    const headFactor = this.headDownFrames >= this.HEAD_DOWN_THRESHOLD;
-    const combinedFactor = eyesClosed && this.headDownFrames >= this.HEAD_DOWN_THRESHOLD / 2;
+    const eyesFactor = this.eyeClosedTime >= this.eyeClosedThreshold;
+    const headFactor = this.headDownTime >= this.headDownThreshold;
+    const combinedFactor = eyesClosed && this.headDownTime >= this.headDownThreshold / 2;
 
     const isSleeping = eyesFactor || (eyesClosed && headFactor) || combinedFactor;
 
@@ -74,15 +80,15 @@ export class SleepDetector {
     }
 
     // Calculate sleep confidence score
-    const eyeScore = Math.min(100, (this.eyeClosedFrames / this.EYE_CLOSED_THRESHOLD) * 60);
-    const headScore = Math.min(40, (this.headDownFrames / this.HEAD_DOWN_THRESHOLD) * 40);
+    const eyeScore = Math.min(100, (this.eyeClosedTime / this.eyeClosedThreshold) * 60);
+    const headScore = Math.min(40, (this.headDownTime / this.headDownThreshold) * 40);
     const sleepScore = Math.min(100, eyeScore + headScore);
 
     return {
       isSleeping,
       sleepScore: Math.round(sleepScore),
-      eyeClosedDuration: this.eyeClosedFrames,
-      headDownDuration: this.headDownFrames,
+      eyeClosedDuration: this.eyeClosedTime,
+      headDownDuration: this.headDownTime,
       isHeadDown,
       headPitch: headPose.pitch,
     };
@@ -118,8 +124,8 @@ export class SleepDetector {
   }
 
   getCurrentSleepDuration(): number {
-    if (this.sleepStartTime !== null) {
-      return this.totalSleepDuration + (Date.now() - this.sleepStartTime);
+    if (this.sleepStartTime !== null && this.lastFrameTime !== null) {
+      return this.totalSleepDuration + (this.lastFrameTime - this.sleepStartTime);
     }
     return this.totalSleepDuration;
   }
@@ -134,25 +140,26 @@ export class SleepDetector {
   }
 
   reset(): void {
-    this.eyeClosedFrames = 0;
-    this.headDownFrames = 0;
+    this.eyeClosedTime = 0;
+    this.headDownTime = 0;
+    this.lastFrameTime = null;
     this.sleepStartTime = null;
     this.totalSleepDuration = 0;
   }
 
   setThresholds(options: {
-    eyeClosedThreshold?: number;
-    headDownThreshold?: number;
+    eyeClosedThreshold?: number; // ms
+    headDownThreshold?: number; // ms
     pitchThreshold?: number;
   }): void {
     if (options.eyeClosedThreshold !== undefined) {
-      (this as any).EYE_CLOSED_THRESHOLD = options.eyeClosedThreshold;
+      this.eyeClosedThreshold = options.eyeClosedThreshold;
     }
     if (options.headDownThreshold !== undefined) {
-      (this as any).HEAD_DOWN_THRESHOLD = options.headDownThreshold;
+      this.headDownThreshold = options.headDownThreshold;
     }
     if (options.pitchThreshold !== undefined) {
-      (this as any).PITCH_THRESHOLD = options.pitchThreshold;
+      this.pitchThreshold = options.pitchThreshold;
     }
   }
 }
@@ -0,0 +1,81 @@
+// Transfer functions mapping head deflection to cursor displacement or velocity
+// Curves work on magnitudes in 0..1; the sign of the deflection is restored afterwards
+
+export type CurveType = 'linear' | 'quadratic' | 'sigmoid' | 'custom';
+
+export interface CurvePoint {
+  x: number; // input deflection, 0 to 1
+  y: number; // output, 0 to 1
+}
+
+export interface TransferCurve {
+  type: CurveType;
+  points: CurvePoint[]; // control points for 'custom', sorted by x, from x = 0 to x = 1
+}
+
+export const DEFAULT_CURVE_POINTS: CurvePoint[] = [
+  { x: 0, y: 0 },
+  { x: 0.25, y: 0.08 },
+  { x: 0.5, y: 0.25 },
+  { x: 0.75, y: 0.6 },
+  { x: 1, y: 1 },
+];
+
+export const DEFAULT_TRANSFER_CURVE: TransferCurve = {
+  type: 'linear',
+  points: DEFAULT_CURVE_POINTS,
+};
+
+const SIGMOID_STEEPNESS = 10;
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-SIGMOID_STEEPNESS * (x - 0.5)));
+}
+
+// Piecewise linear interpolation through the control points
+function interpolatePoints(points: CurvePoint[], x: number): number {
+  if (points.length === 0) return x;
+  if (x <= points[0].x) return points[0].y;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    if (x <= next.x) {
+      const span = next.x - prev.x;
+      const t = span > 0 ? (x - prev.x) / span : 1;
+      return prev.y + (next.y - prev.y) * t;
+    }
+  }
+
+  return points[points.length - 1].y;
+}
+
+// Evaluate a curve for an input magnitude in 0..1
+export function evaluateCurve(curve: TransferCurve, input: number): number {
+  const x = Math.max(0, Math.min(1, input));
+
+  switch (curve.type) {
+    case 'quadratic':
+      return x * x;
+    case 'sigmoid': {
+      // Normalized so the curve still passes through (0, 0) and (1, 1)
+      const low = logistic(0);
+      const high = logistic(1);
+      return (logistic(x) - low) / (high - low);
+    }
+    case 'custom':
+      return Math.max(0, Math.min(1, interpolatePoints(curve.points, x)));
+    default:
+      return x;
+  }
+}
+
+// Apply dead zone, curve and gain to a signed deflection in -1..1
+export function applyTransfer(value: number, curve: TransferCurve, deadZone: number, gain: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadZone) return 0;
+
+  // Rescale so output rises smoothly from zero at the edge of the dead zone
+  const normalized = Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+  return Math.sign(value) * evaluateCurve(curve, normalized) * gain;
+}
@@ -0,0 +1,220 @@
+// Tremor analysis and suppression for head tracking
+// Estimates the dominant oscillation in the recent position history, removes it with a
+// band-stop (notch) filter, and holds the position through short involuntary jerks
+
+export interface TremorProfile {
+  frequency: number; // dominant oscillation, Hz (0 when none)
+  amplitude: number; // peak oscillation, normalized position units
+  isTremor: boolean; // oscillation inside the tremor band and above the noise floor
+  jerkCount: number; // involuntary jerks detected since the last reset
+}
+
+export interface TremorSample {
+  x: number;
+  y: number;
+  isJerk: boolean; // position is being held through a suspected jerk
+}
+
+const EMPTY_PROFILE: TremorProfile = {
+  frequency: 0,
+  amplitude: 0,
+  isTremor: false,
+  jerkCount: 0,
+};
+
+// Second-order band-stop section (RBJ cookbook notch), recomputed per sample
+// because camera frames do not arrive at a fixed rate
+class NotchFilter {
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  filter(value: number, frequency: number, q: number, dt: number): number {
+    const sampleRate = 1 / dt;
+    if (frequency <= 0 || frequency >= sampleRate / 2) {
+      this.prime(value);
+      return value;
+    }
+
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+
+    const output = (value - 2 * cos * this.x1 + this.x2 + 2 * cos * this.y1 - (1 - alpha) * this.y2) / a0;
+
+    this.x2 = this.x1;
+    this.x1 = value;
+    this.y2 = this.y1;
+    this.y1 = output;
+    return output;
+  }
+
+  // Settle the filter on a constant value (unit gain at DC, so no transient)
+  prime(value: number): void {
+    this.x1 = this.x2 = this.y1 = this.y2 = value;
+  }
+}
+
+export class TremorFilter {
+  private enabled = false;
+  private jerkSpeed = 6; // normalized units per second
+  private readonly HISTORY_WINDOW = 2000; // ms of history used for the estimate
+  private readonly MIN_HISTORY = 1000; // ms before a tremor can be reported
+  private readonly BASELINE_CUTOFF = 1.5; // Hz - slower motion counts as intentional
+  private readonly MIN_FREQUENCY = 3; // Hz - physiological/essential tremor band
+  private readonly MAX_FREQUENCY = 12;
+  private readonly MIN_AMPLITUDE = 0.015;
+  private readonly NOTCH_Q = 0.7; // wide stop band, the estimate drifts
+  private readonly JERK_MAX_DURATION = 250; // ms - longer moves are intentional
+  private readonly JERK_RETURN_RADIUS = 0.06;
+  private readonly MAX_FRAME_GAP = 200; // ms
+
+  private history: { t: number; dx: number; dy: number }[] = [];
+  private baseline: { x: number; y: number } | null = null;
+  private last: { x: number; y: number; t: number } | null = null;
+  private output = { x: 0, y: 0 };
+  private notchX = new NotchFilter();
+  private notchY = new NotchFilter();
+  private profile: TremorProfile = { ...EMPTY_PROFILE };
+
+  private jerkStart: number | null = null;
+  private jerkOrigin = { x: 0, y: 0 };
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  setJerkSpeed(unitsPerSecond: number): void {
+    this.jerkSpeed = Math.max(0.5, unitsPerSecond);
+  }
+
+  getProfile(): TremorProfile {
+    return { ...this.profile };
+  }
+
+  process(x: number, y: number, timestamp: number): TremorSample {
+    const last = this.last;
+    if (last === null || timestamp - last.t > this.MAX_FRAME_GAP) {
+      this.start(x, y, timestamp);
+      return { x, y, isJerk: false };
+    }
+    if (timestamp <= last.t) {
+      return { ...this.output, isJerk: this.enabled && this.jerkStart !== null };
+    }
+
+    const dt = (timestamp - last.t) / 1000;
+    this.last = { x, y, t: timestamp };
+
+    // Jerk classification: a sudden fast movement that comes straight back
+    // to where it started is involuntary; one that keeps going is intentional
+    if (this.jerkStart === null) {
+      const speed = Math.hypot(x - last.x, y - last.y) / dt;
+      if (speed > this.jerkSpeed) {
+        this.jerkStart = timestamp;
+        this.jerkOrigin = { x: last.x, y: last.y };
+      }
+    } else {
+      const returned = Math.hypot(x - this.jerkOrigin.x, y - this.jerkOrigin.y) < this.JERK_RETURN_RADIUS;
+      if (returned) {
+        this.profile.jerkCount++;
+        this.jerkStart = null;
+        this.resume(x, y);
+      } else if (timestamp - this.jerkStart > this.JERK_MAX_DURATION) {
+        this.jerkStart = null;
+        this.resume(x, y);
+      }
+    }
+
+    if (this.jerkStart !== null) {
+      return this.enabled
+        ? { ...this.output, isJerk: true }
+        : { x, y, isJerk: false };
+    }
+
+    this.analyze(x, y, timestamp, dt);
+
+    // The notch runs continuously so switching it on does not cause a transient
+    const notchFrequency = this.profile.frequency;
+    const filteredX = this.notchX.filter(x, notchFrequency, this.NOTCH_Q, dt);
+    const filteredY = this.notchY.filter(y, notchFrequency, this.NOTCH_Q, dt);
+
+    this.output = this.enabled && this.profile.isTremor
+      ? { x: filteredX, y: filteredY }
+      : { x, y };
+
+    return { ...this.output, isJerk: false };
+  }
+
+  private start(x: number, y: number, timestamp: number): void {
+    this.last = { x, y, t: timestamp };
+    this.baseline = { x, y };
+    this.history = [];
+    this.jerkStart = null;
+    this.resume(x, y);
+  }
+
+  private resume(x: number, y: number): void {
+    this.output = { x, y };
+    this.notchX.prime(x);
+    this.notchY.prime(y);
+  }
+
+  // Estimate tremor frequency and amplitude from the oscillation around a slow baseline
+  private analyze(x: number, y: number, timestamp: number, dt: number): void {
+    const baseline = this.baseline ?? { x, y };
+    const alpha = 1 / (1 + 1 / (2 * Math.PI * this.BASELINE_CUTOFF * dt));
+    this.baseline = {
+      x: baseline.x + alpha * (x - baseline.x),
+      y: baseline.y + alpha * (y - baseline.y),
+    };
+
+    this.history.push({ t: timestamp, dx: x - this.baseline.x, dy: y - this.baseline.y });
+    while (this.history.length > 0 && timestamp - this.history[0].t > this.HISTORY_WINDOW) {
+      this.history.shift();
+    }
+
+    const duration = this.history.length > 1 ? (timestamp - this.history[0].t) / 1000 : 0;
+    if (duration * 1000 < this.MIN_HISTORY) {
+      this.profile = { ...EMPTY_PROFILE, jerkCount: this.profile.jerkCount };
+      return;
+    }
+
+    // Analyse whichever axis oscillates more
+    const rms = (values: number[]) => Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+    const rmsX = rms(this.history.map((s) => s.dx));
+    const rmsY = rms(this.history.map((s) => s.dy));
+    const residuals = rmsX >= rmsY ? this.history.map((s) => s.dx) : this.history.map((s) => s.dy);
+    const amplitude = Math.max(rmsX, rmsY) * Math.SQRT2;
+
+    // Zero crossings with a small hysteresis so sensor noise is not counted
+    const hysteresis = amplitude * 0.2;
+    let crossings = 0;
+    let sign = 0;
+    for (const value of residuals) {
+      if (Math.abs(value) < hysteresis) continue;
+      const current = Math.sign(value);
+      if (sign !== 0 && current !== sign) crossings++;
+      sign = current;
+    }
+
+    const frequency = crossings / 2 / duration;
+    this.profile = {
+      frequency,
+      amplitude,
+      isTremor: frequency >= this.MIN_FREQUENCY &&
+        frequency <= this.MAX_FREQUENCY &&
+        amplitude >= this.MIN_AMPLITUDE,
+      jerkCount: this.profile.jerkCount,
+    };
+  }
+
+  reset(): void {
+    this.last = null;
+    this.baseline = null;
+    this.history = [];
+    this.jerkStart = null;
+    this.profile = { ...EMPTY_PROFILE };
+  }
+}
@@ -0,0 +1,111 @@
+// Two-hand gesture recognition for AccessMate
+// Poses made with both hands at once (both palms, both fists) and pinch-zoom
+// from the changing distance between two pinching hands
+
+import type { HandLandmark } from './fingerCounting';
+import type { GestureType } from './gestureCommands';
+
+export type TwoHandGestureType = 'bothPalms' | 'bothFists' | 'pinchSpread' | 'pinchSqueeze';
+
+export interface TwoHandResult {
+  gesture: TwoHandGestureType | null;
+  engaged: boolean; // a two-hand pose is being formed; single-hand gestures should wait
+}
+
+export interface TrackedHand {
+  landmarks: HandLandmark[];
+  gesture: GestureType;
+}
+
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+
+export class TwoHandGestureRecognizer {
+  private poseGesture: TwoHandGestureType | null = null;
+  private poseStartTime: number | null = null;
+  private pinchBaseline: number | null = null;
+  private lastGestureTime: number = -Infinity;
+  private holdTime = 400; // ms - both hands must hold a pose this long
+  private readonly PINCH_RATIO = 0.3; // thumb-index gap, relative to palm size
+  private readonly ZOOM_STEP = 1.3; // change in hand spacing per zoom step
+  private readonly COOLDOWN = 300; // ms - between two-hand gestures
+
+  update(first: TrackedHand, second: TrackedHand, timestamp: number): TwoHandResult {
+    // Pinch zoom - both hands pinching; each step of spread or squeeze fires once
+    if (this.isPinching(first.landmarks) && this.isPinching(second.landmarks)) {
+      this.poseGesture = null;
+      this.poseStartTime = null;
+      const spacing = this.pinchSpacing(first.landmarks, second.landmarks);
+      if (this.pinchBaseline === null) {
+        this.pinchBaseline = spacing;
+        return { gesture: null, engaged: true };
+      }
+
+      const ratio = spacing / this.pinchBaseline;
+      if (timestamp - this.lastGestureTime >= this.COOLDOWN && (ratio >= this.ZOOM_STEP || ratio <= 1 / this.ZOOM_STEP)) {
+        this.pinchBaseline = spacing;
+        this.lastGestureTime = timestamp;
+        return { gesture: ratio > 1 ? 'pinchSpread' : 'pinchSqueeze', engaged: true };
+      }
+      return { gesture: null, engaged: true };
+    }
+    this.pinchBaseline = null;
+
+    // Held poses - the same static gesture on both hands
+    const pose: TwoHandGestureType | null =
+      first.gesture === 'openPalm' && second.gesture === 'openPalm'
+        ? 'bothPalms'
+        : first.gesture === 'fist' && second.gesture === 'fist'
+        ? 'bothFists'
+        : null;
+
+    if (pose !== this.poseGesture) {
+      this.poseGesture = pose;
+      this.poseStartTime = pose ? timestamp : null;
+      return { gesture: null, engaged: pose !== null };
+    }
+    if (!pose) return { gesture: null, engaged: false };
+    // Still holding after it fired
+    if (this.poseStartTime === null) return { gesture: null, engaged: true };
+
+    if (timestamp - this.poseStartTime >= this.holdTime && timestamp - this.lastGestureTime >= this.COOLDOWN) {
+      // Fire once per hold; the hands must change pose before it repeats
+      this.poseStartTime = null;
+      this.lastGestureTime = timestamp;
+      return { gesture: pose, engaged: true };
+    }
+    return { gesture: null, engaged: true };
+  }
+
+  setHoldTime(ms: number): void {
+    this.holdTime = Math.max(0, ms);
+  }
+
+  private isPinching(landmarks: HandLandmark[]): boolean {
+    const palmSize = Math.hypot(landmarks[WRIST].x - landmarks[MIDDLE_MCP].x, landmarks[WRIST].y - landmarks[MIDDLE_MCP].y);
+    const gap = Math.hypot(landmarks[THUMB_TIP].x - landmarks[INDEX_TIP].x, landmarks[THUMB_TIP].y - landmarks[INDEX_TIP].y);
+    return palmSize > 0 && gap / palmSize < this.PINCH_RATIO;
+  }
+
+  // Distance between the two pinch points
+  private pinchSpacing(first: HandLandmark[], second: HandLandmark[]): number {
+    const point = (landmarks: HandLandmark[]) => ({
+      x: (landmarks[THUMB_TIP].x + landmarks[INDEX_TIP].x) / 2,
+      y: (landmarks[THUMB_TIP].y + landmarks[INDEX_TIP].y) / 2,
+    });
+    const a = point(first);
+    const b = point(second);
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  reset(): void {
+    this.poseGesture = null;
+    this.poseStartTime = null;
+    this.pinchBaseline = null;
+    this.lastGestureTime = -Infinity;
+  }
+}
+
+export const TWO_HAND_GESTURES: TwoHandGestureType[] = ['bothPalms', 'bothFists', 'pinchSpread', 'pinchSqueeze'];